@@ -0,0 +1,36 @@
+// Builds each MCP Apps UI in src/ui/apps into one self-contained HTML file in
+// dist/ui: the app's TypeScript (and the shared runtime it imports) is bundled
+// and inlined in place of its <script type="module" src="./name.ts"> tag.
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { build } from "esbuild";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const appsDir = path.join(root, "src/ui/apps");
+const outDir = path.join(root, "dist/ui");
+const SCRIPT_TAG = /<script type="module" src="\.\/([\w-]+\.ts)"><\/script>/;
+
+await mkdir(outDir, { recursive: true });
+
+for (const file of (await readdir(appsDir)).filter((f) => f.endsWith(".html")).sort()) {
+  const html = await readFile(path.join(appsDir, file), "utf8");
+  const match = html.match(SCRIPT_TAG);
+  if (!match) throw new Error(`${file} has no <script type="module" src="./<app>.ts"> tag`);
+
+  const result = await build({
+    entryPoints: [path.join(appsDir, match[1])],
+    bundle: true,
+    write: false,
+    format: "iife",
+    target: "es2020",
+    minify: true,
+    legalComments: "none",
+  });
+  // Inline scripts end at the first "</script", wherever it appears
+  const js = result.outputFiles[0].text.replace(/<\/script/gi, "<\\/script");
+
+  const out = path.join(outDir, file);
+  await writeFile(out, html.replace(match[0], () => `<script>${js}</script>`));
+  console.log(`${path.relative(root, out)} (${Math.round(Buffer.byteLength(js) / 1024)} kB script)`);
+}
@@ -0,0 +1,78 @@
+import { ANALYSIS_FEATURES, type AnalysisFeature, type AnalysisRequest, type AssetAnalysis } from "./storage/index.js";
+
+/**
+ * Options for AI-assisted metadata (`analyze_asset` and `upload` with
+ * `analyze`). The work itself happens in the storage backend; this module
+ * only validates what was asked for and describes the result for the chat.
+ */
+
+export const DEFAULT_AUTO_TAG_THRESHOLD = 0.7;
+
+export type AnalyzeAssetArgs = {
+  public_id: string;
+  resource_type?: "image" | "video";
+  features?: AnalysisFeature[];
+  auto_tag_threshold?: number;
+};
+
+export class AnalysisOptionsError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid analysis options: ${issues.join("; ")}`);
+    this.name = "AnalysisOptionsError";
+  }
+}
+
+/**
+ * `features` may be `true` (everything), a list, or omitted (everything).
+ * Tags at or above the threshold are applied to the asset.
+ */
+export function resolveAnalysisRequest(features: unknown, threshold: unknown): AnalysisRequest {
+  const issues: string[] = [];
+  let wanted: AnalysisFeature[] = [...ANALYSIS_FEATURES];
+  if (Array.isArray(features)) {
+    const unknown = features.filter((f) => !(ANALYSIS_FEATURES as readonly unknown[]).includes(f));
+    if (unknown.length) issues.push(`unknown feature(s) ${unknown.join(", ")}; expected ${ANALYSIS_FEATURES.join(", ")}`);
+    else if (!features.length) issues.push("features must not be empty");
+    else wanted = [...new Set(features as AnalysisFeature[])];
+  } else if (features !== undefined && features !== true) {
+    issues.push("features must be true or a list of features");
+  }
+  if (threshold !== undefined && !(typeof threshold === "number" && threshold >= 0 && threshold <= 1)) {
+    issues.push("auto_tag_threshold must be a number between 0 and 1");
+  }
+  if (issues.length) throw new AnalysisOptionsError(issues);
+
+  return { features: wanted, auto_tag_threshold: (threshold as number | undefined) ?? DEFAULT_AUTO_TAG_THRESHOLD };
+}
+
+/** Tags that cleared the threshold and were applied to the asset. */
+export function appliedTags(analysis: AssetAnalysis, threshold: number | undefined) {
+  if (threshold === undefined) return [];
+  return (analysis.tags ?? []).filter((t) => t.confidence >= threshold).map((t) => t.tag);
+}
+
+/** Plain-text summary for the tool result; the UI renders the structured form. */
+export function describeAnalysis(analysis: AssetAnalysis, threshold?: number) {
+  const lines: string[] = [];
+  if (analysis.caption) lines.push(`Suggested alt text: "${analysis.caption}"`);
+  if (analysis.tags?.length) {
+    const applied = appliedTags(analysis, threshold);
+    lines.push(
+      `Tags: ${analysis.tags.map((t) => `${t.tag} (${Math.round(t.confidence * 100)}%)`).join(", ")}` +
+        (applied.length ? ` — applied: ${applied.join(", ")}` : "")
+    );
+  }
+  if (analysis.ocr_text) lines.push(`Text in image: ${analysis.ocr_text}`);
+  if (analysis.moderation?.length) {
+    lines.push(`Moderation: ${analysis.moderation.map((m) => `${m.kind} ${m.status}`).join(", ")}`);
+  }
+  if (analysis.colors?.length) {
+    lines.push(`Dominant colors: ${analysis.colors.slice(0, 5).map((c) => `${c.color} ${c.percent}%`).join(", ")}`);
+  }
+  if (analysis.faces) lines.push(`Faces: ${analysis.faces.length}`);
+  for (const u of analysis.unavailable) lines.push(`${u.feature}: unavailable (${u.reason})`);
+  if (analysis.caption) {
+    lines.push(`To keep the alt text, call set_context with { "alt": ${JSON.stringify(analysis.caption)} }.`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,104 @@
+import { EventEmitter } from "node:events";
+import { appendFile } from "node:fs/promises";
+import path from "node:path";
+import { logger } from "./logger.js";
+
+/**
+ * Append-only record of every call to a tool that changes assets, written as
+ * JSON lines to AUDIT_LOG_FILE (when set) and emitted as "entry" events, which
+ * sessions forward as MCP `notifications/message` with logger "audit".
+ * Failed and dry-run calls are recorded too. A call that only starts a job
+ * (an upload without `wait`) is recorded as "accepted", and the job's result
+ * gets its own entry when it finishes.
+ */
+
+export const MUTATING_TOOLS = new Set([
+  "upload",
+  "cancel_job",
+  "sign_upload",
+  "complete_direct_upload",
+  "upload_batch",
+  "delete_assets",
+  "rename_asset",
+  "update_tags",
+  "set_context",
+  "analyze_asset",
+  "video_transcode",
+  "save_transformation",
+]);
+
+export type AuditEntry = {
+  time: string;
+  tool: string;
+  outcome: "ok" | "error" | "accepted";
+  error_category?: string;
+  client_id: string | null;
+  tenant: string | null;
+  session_id: string | null;
+  request_id: string | number;
+  /** Set on the "accepted" entry of a call that started a job, and on the entry written when that job finishes. */
+  job_id?: string;
+  duration_ms: number;
+  /** The call's arguments, with data URIs and long strings shortened. */
+  arguments: unknown;
+  /** Assets, named transformations (`t_<name>`) or jobs (`job:<id>`) the call touched, as reported by its result. */
+  targets: string[];
+};
+
+const MAX_STRING = 256;
+
+/** Keep entries small and free of file contents. */
+export function summarizeArguments(value: unknown): unknown {
+  if (typeof value === "string") {
+    const dataUri = value.match(/^data:([^;,]+)[;,]/i);
+    if (dataUri) return `data:${dataUri[1]};… (${value.length} chars)`;
+    return value.length > MAX_STRING ? `${value.slice(0, MAX_STRING)}… (${value.length} chars)` : value;
+  }
+  if (Array.isArray(value)) return value.map(summarizeArguments);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, summarizeArguments(v)]));
+  }
+  return value;
+}
+
+/** Public IDs, transformation names and job ids from a tool result's structured content. */
+export function auditTargets(structured: any): string[] {
+  if (!structured || typeof structured !== "object") return [];
+  const ids = new Set<string>();
+  if (structured.operation?.public_ids) for (const id of structured.operation.public_ids) ids.add(id);
+  else if (structured.upload?.public_id) ids.add(structured.upload.public_id);
+  for (const item of structured.batch?.items ?? []) if (item.upload?.public_id) ids.add(item.upload.public_id);
+  if (structured.video?.public_id) ids.add(structured.video.public_id);
+  if (structured.named_transformation?.name) ids.add(`t_${structured.named_transformation.name}`);
+  if (structured.job?.id) ids.add(`job:${structured.job.id}`);
+  return [...ids];
+}
+
+export class AuditLog extends EventEmitter {
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(readonly file?: string) {
+    super();
+  }
+
+  /** AUDIT_LOG_FILE; without it entries only go to sessions and the JSON log. */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env) {
+    return new AuditLog(env.AUDIT_LOG_FILE ? path.resolve(env.AUDIT_LOG_FILE) : undefined);
+  }
+
+  record(entry: AuditEntry) {
+    logger.info("audit", { audit: entry });
+    this.emit("entry", entry);
+    if (!this.file) return;
+    // Appends are chained so lines never interleave
+    const file = this.file;
+    this.writes = this.writes
+      .then(() => appendFile(file, `${JSON.stringify(entry)}\n`, { flag: "a" }))
+      .catch((err) => logger.error("audit log write failed", { err, file }));
+  }
+
+  /** Resolves once every recorded entry is on disk. */
+  flush() {
+    return this.writes;
+  }
+}
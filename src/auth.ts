@@ -0,0 +1,124 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { InvalidTokenError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import type { OAuthTokenVerifier } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+
+/**
+ * Per-client API keys for the HTTP transport, loaded from AUTH_CONFIG_FILE:
+ *
+ * {
+ *   "clients": [
+ *     { "id": "goose-laptop", "key_sha256": "<hex sha256 of the key>", "scopes": ["*"], "deny": ["delete_assets"] },
+ *     { "id": "chatgpt", "key": "<plain key>", "scopes": ["upload", "search_assets", "transform"], "tenants": ["brand-a"] }
+ *   ]
+ * }
+ *
+ * or, for quick setups, MCP_API_KEYS="id:key,id2:key2" (all tools allowed).
+ * Scopes are tool names or "*"; `deny` always wins. The `upload` scope also
+ * grants `get_job` and `cancel_job`, since uploads run as jobs, and the
+ * direct-upload tools `sign_upload` and `complete_direct_upload`.
+ */
+
+export type ApiClient = {
+  id: string;
+  /** Plain-text key. Prefer `key_sha256` in files that might be shared. */
+  key?: string;
+  key_sha256?: string;
+  scopes?: string[];
+  deny?: string[];
+  /** ISO date after which the key is rejected. */
+  expires_at?: string;
+  /** Tenants (see tenants.ts) this client may use; the first is its default. */
+  tenants?: string[];
+};
+
+export type AuthConfig = { clients: ApiClient[] };
+
+/** Keys never expire unless configured to, but the SDK middleware wants an expiry. */
+const NO_EXPIRY_WINDOW_SECONDS = 24 * 60 * 60;
+
+function sha256(value: string) {
+  return createHash("sha256").update(value).digest();
+}
+
+export class ApiKeyVerifier implements OAuthTokenVerifier {
+  private clients: { client: ApiClient; hash: Buffer }[];
+
+  constructor(config: AuthConfig) {
+    this.clients = config.clients.map((client) => {
+      if (!client.id) throw new Error("Every API client needs an `id`");
+      if (!client.key && !client.key_sha256) throw new Error(`API client "${client.id}" needs a key or key_sha256`);
+      return {
+        client,
+        hash: client.key_sha256 ? Buffer.from(client.key_sha256, "hex") : sha256(client.key!),
+      };
+    });
+  }
+
+  /**
+   * Read AUTH_CONFIG_FILE or MCP_API_KEYS. Returns undefined when neither
+   * is set, which leaves the HTTP transport open.
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): ApiKeyVerifier | undefined {
+    if (env.AUTH_CONFIG_FILE) {
+      const config = JSON.parse(readFileSync(path.resolve(env.AUTH_CONFIG_FILE), "utf8")) as AuthConfig;
+      return new ApiKeyVerifier(config);
+    }
+    if (env.MCP_API_KEYS) {
+      const clients = env.MCP_API_KEYS.split(",")
+        .map((pair) => pair.trim())
+        .filter(Boolean)
+        .map((pair) => {
+          const i = pair.indexOf(":");
+          if (i <= 0) throw new Error('MCP_API_KEYS entries must look like "id:key"');
+          return { id: pair.slice(0, i), key: pair.slice(i + 1), scopes: ["*"] };
+        });
+      return new ApiKeyVerifier({ clients });
+    }
+    return undefined;
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const hash = sha256(token);
+    // Compare against every key so timing does not reveal which one matched
+    let match: ApiClient | undefined;
+    for (const { client, hash: expected } of this.clients) {
+      if (expected.length === hash.length && timingSafeEqual(expected, hash)) match ??= client;
+    }
+    if (!match) throw new InvalidTokenError("Invalid API key");
+
+    const expiresAt = match.expires_at
+      ? Math.floor(Date.parse(match.expires_at) / 1000)
+      : Math.floor(Date.now() / 1000) + NO_EXPIRY_WINDOW_SECONDS;
+
+    return {
+      token,
+      clientId: match.id,
+      scopes: match.scopes ?? ["*"],
+      expiresAt,
+      extra: { deny: match.deny ?? [], tenants: match.tenants },
+    };
+  }
+}
+
+/** Tools that come with another tool's scope. */
+const IMPLIED_SCOPES: Record<string, string> = {
+  get_job: "upload",
+  cancel_job: "upload",
+  sign_upload: "upload",
+  complete_direct_upload: "upload",
+};
+
+/**
+ * Whether the authenticated client may call `tool`. Without auth info
+ * (stdio, or HTTP with auth disabled) every tool is allowed.
+ */
+export function isToolAllowed(auth: AuthInfo | undefined, tool: string): boolean {
+  if (!auth) return true;
+  const deny = (auth.extra?.deny as string[] | undefined) ?? [];
+  if (deny.includes(tool)) return false;
+  const implied = IMPLIED_SCOPES[tool];
+  return auth.scopes.includes("*") || auth.scopes.includes(tool) || (implied !== undefined && auth.scopes.includes(implied));
+}
@@ -0,0 +1,85 @@
+import { readdir } from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * Run `fn` over `items` with at most `limit` calls in flight.
+ * Results keep the input order; a rejected call does not stop the others.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  async function worker() {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: "fulfilled", value: await fn(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+      }
+    }
+  }
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * Convert a glob (`*`, `**`, `?`, `{a,b}`) into a RegExp matched against
+ * `/`-separated paths relative to the search root.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let re = "";
+  let inGroup = false;
+
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*") {
+      if (glob[i + 1] === "*") {
+        // `**/` matches zero or more directories
+        const slash = glob[i + 2] === "/";
+        re += slash ? "(?:.*/)?" : ".*";
+        i += slash ? 2 : 1;
+      } else {
+        re += "[^/]*";
+      }
+    } else if (c === "?") {
+      re += "[^/]";
+    } else if (c === "{") {
+      inGroup = true;
+      re += "(?:";
+    } else if (c === "}" && inGroup) {
+      inGroup = false;
+      re += ")";
+    } else if (c === "," && inGroup) {
+      re += "|";
+    } else {
+      re += c.replace(/[.+^$()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${re}$`, "i");
+}
+
+/**
+ * List files under `directory` whose relative path matches `glob`.
+ * Patterns without `**` only look at the top-level directory.
+ */
+export async function findFiles(directory: string, glob = "*"): Promise<string[]> {
+  const matcher = globToRegExp(glob);
+  const entries = await readdir(directory, {
+    withFileTypes: true,
+    recursive: glob.includes("**") || glob.includes("/"),
+  });
+
+  return entries
+    .filter((e) => e.isFile())
+    .map((e) => path.join(e.parentPath ?? (e as any).path, e.name))
+    .filter((file) => matcher.test(path.relative(directory, file).split(path.sep).join("/")))
+    .sort();
+}
@@ -1,46 +1,463 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
   ListToolsRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   ErrorCode,
   McpError,
 } from "@modelcontextprotocol/sdk/types.js";
 import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
-import { v2 as cloudinary, UploadApiResponse } from "cloudinary";
-import { readFile } from "node:fs/promises";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { UploadApiResponse } from "cloudinary";
+import { createReadStream } from "node:fs";
+import { stat } from "node:fs/promises";
+import path from "node:path";
+import { addAbortSignal, pipeline, Readable, Transform } from "node:stream";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import {
+  AnalysisOptionsError,
+  AnalyzeAssetArgs,
+  appliedTags,
+  describeAnalysis,
+  resolveAnalysisRequest,
+} from "./analysis.js";
+import { AuditLog, auditTargets, MUTATING_TOOLS, summarizeArguments, type AuditEntry } from "./audit.js";
+import { isToolAllowed } from "./auth.js";
+import { findFiles, mapWithConcurrency } from "./batch.js";
+import {
+  contentIndex,
+  contentTag,
+  DEDUPE_MODES,
+  DedupeMode,
+  DuplicateUploadError,
+  hashBuffer,
+  hashFile,
+} from "./dedupe.js";
+import { directUploadGrants, directUploadTtlFromEnv, randomPublicId } from "./direct-upload.js";
+import { classifyError, invalidInput, ToolError, toolErrorResult } from "./errors.js";
+import { isFinished, JOB_URI_TEMPLATE, jobStore, parseJobUri, type Job } from "./jobs.js";
+import { logger, type Logger } from "./logger.js";
+import { toolCalls, toolDuration, toolErrors, uploadedBytes } from "./metrics.js";
+import { UploadPresets } from "./presets.js";
+import {
+  ASSET_OPERATION_OUTPUT,
+  DEMO_OUTPUT,
+  DIRECT_UPLOAD_OUTPUT,
+  EDITOR_OUTPUT,
+  JOB_OUTPUT,
+  LIBRARY_OUTPUT,
+  NAMED_TRANSFORMATION_OUTPUT,
+  SEARCH_OUTPUT,
+  TRANSFORM_OUTPUT,
+  UPLOAD_BATCH_OUTPUT,
+  UPLOAD_OUTPUT,
+  VIDEO_OUTPUT,
+} from "./output-schemas.js";
+import { listPrompts, PromptArgumentError, renderPrompt } from "./prompts.js";
+import { UploadPolicy } from "./upload-policy.js";
+import {
+  ASSET_URI_TEMPLATE,
+  AssetChange,
+  assetChanges,
+  assetUri,
+  changedUris,
+  FOLDER_URI_TEMPLATE,
+  folderUri,
+  parseAssetUri,
+  parseFolderUri,
+} from "./resources.js";
+import {
+  ANALYSIS_FEATURES,
+  type AnalysisFeature,
+  type AnalysisRequest,
+  type AssetAnalysis,
+  type ResourceType,
+  type StorageBackend,
+  type UploadSource,
+} from "./storage/index.js";
+import {
+  buildTransformation,
+  CROP_MODES,
+  EFFECTS,
+  FETCH_FORMATS,
+  GRAVITIES,
+  QUALITIES,
+  TRANSFORM_PRESETS,
+  TransformArgs,
+  TransformStep,
+  TransformValidationError,
+  compileSteps,
+  validateTransformArgs,
+} from "./transformations.js";
+import {
+  buildPosterFrames,
+  buildStreamingUrls,
+  buildTrim,
+  compileTranscodes,
+  MAX_POSTER_FRAMES,
+  MAX_TRANSCODES,
+  PosterFramesArgs,
+  STREAMING_FORMATS,
+  STREAMING_PROFILES,
+  StreamingArgs,
+  TranscodeArgs,
+  TrimArgs,
+  VIDEO_CODECS,
+  VIDEO_FORMATS,
+} from "./video.js";
+import {
+  DEMO_UI_URI,
+  DIRECT_UPLOAD_UI_URI,
+  EDITOR_UI_URI,
+  findUiApp,
+  GALLERY_UI_URI,
+  LIBRARY_UI_URI,
+  loadUiBundle,
+  UI_APPS,
+  UI_MIME_TYPE,
+  UPLOAD_UI_URI,
+} from "./ui-apps.js";
+
+type UploadArgs = {
+  file_path?: string;
+  file?: string;
+  resource_type?: "image" | "video" | "raw";
+  public_id?: string;
+  folder?: string;
+  overwrite?: boolean;
+  tags?: string[];
+  upload_preset?: string;
+  /** Run AI analysis after the upload: `true` for every feature, or a list. */
+  analyze?: boolean | AnalysisFeature[];
+  auto_tag_threshold?: number;
+  /** What to do when the same bytes were uploaded before; see dedupe.ts. */
+  dedupe?: DedupeMode;
+  /** Return the finished upload instead of the running job. */
+  wait?: boolean;
+};
+
+type JobArgs = { job_id?: string };
+
+type SignUploadArgs = {
+  folder?: string;
+  upload_preset?: string;
+  resource_type?: "image" | "video" | "raw" | "auto";
+  public_id?: string;
+  tags?: string[];
+};
+
+type CompleteDirectUploadArgs = {
+  upload_id?: string;
+  public_id?: string;
+  resource_type?: "image" | "video" | "raw";
+};
+
+/** Allowance for clock skew between this server and the storage backend. */
+const CLOCK_SKEW_MS = 60_000;
+
+/** An upload result, or the existing asset it was deduplicated against. */
+type UploadOutcome = { result: UploadApiResponse; deduplicated: boolean };
+
+type UploadBatchArgs = {
+  items?: { file_path?: string; file?: string; public_id?: string; tags?: string[] }[];
+  directory?: string;
+  glob?: string;
+  resource_type?: "image" | "video" | "raw";
+  overwrite?: boolean;
+  tags?: string[];
+  upload_preset?: string;
+  dedupe?: DedupeMode;
+  concurrency?: number;
+};
+
+const MAX_BATCH_ITEMS = 200;
+const MAX_BATCH_CONCURRENCY = 10;
+
+/** Chunked uploads send parts of this size (Cloudinary's minimum is 5MB). */
+const UPLOAD_CHUNK_SIZE = 20_000_000;
+/** Slice size used when feeding an in-memory buffer to the chunked uploader. */
+const STREAM_SLICE_SIZE = 1_000_000;
+
+type ProgressFn = (progress: number, total?: number, message?: string) => void;
+
+/**
+ * Build a reporter that sends MCP `notifications/progress` for this request,
+ * or undefined when the client did not send a progressToken.
+ * Byte progress is throttled to whole-percent steps.
+ */
+function createProgressReporter(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): ProgressFn | undefined {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) return undefined;
+
+  let lastPercent = -1;
+  return (progress, total, message) => {
+    if (total) {
+      const percent = Math.floor((progress / total) * 100);
+      if (percent === lastPercent && progress < total) return;
+      lastPercent = percent;
+    }
+    extra
+      .sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress, total, message },
+      })
+      .catch(() => {});
+  };
+}
+
+/**
+ * Size of a remote file from a HEAD request, or undefined if the server
+ * does not say. Fetched through the upload policy, which checks redirects.
+ */
+async function remoteSize(url: string, policy: UploadPolicy): Promise<number | undefined> {
+  try {
+    const res = await policy.fetch(url, { method: "HEAD" });
+    const length = Number(res.headers.get("content-length"));
+    return res.ok && Number.isFinite(length) && length > 0 ? length : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Destroy `source` when `signal` aborts, which fails the upload reading it. */
+function abortable(source: Readable, signal?: AbortSignal): Readable {
+  return signal ? addAbortSignal(signal, source) : source;
+}
+
+function sliceBuffer(buffer: Buffer, size: number): Buffer[] {
+  const slices: Buffer[] = [];
+  for (let i = 0; i < buffer.length; i += size) slices.push(buffer.subarray(i, i + size));
+  return slices;
+}
+
+/**
+ * Pass bytes through unchanged, reporting how many have gone by.
+ * Source errors are forwarded so the backend sees them.
+ */
+function withProgress(source: Readable, total: number, onProgress?: ProgressFn): Readable {
+  if (!onProgress) return source;
+
+  let loaded = 0;
+  onProgress(0, total, "Upload started");
+  const counter = new Transform({
+    transform(chunk: Buffer, _enc, done) {
+      loaded += chunk.length;
+      onProgress(loaded, total, `Uploaded ${loaded} of ${total} bytes`);
+      done(null, chunk);
+    },
+  });
+  return pipeline(source, counter, () => {});
+}
+
+type SearchAssetsArgs = {
+  expression?: string;
+  resource_type?: "image" | "video" | "raw";
+  tags?: string[];
+  folder?: string;
+  format?: string;
+  created_after?: string;
+  created_before?: string;
+  min_bytes?: number;
+  max_bytes?: number;
+  sort_by?: "created_at" | "uploaded_at" | "public_id" | "bytes";
+  sort_direction?: "asc" | "desc";
+  max_results?: number;
+  next_cursor?: string;
+};
+
+type BrowseLibraryArgs = {
+  folder?: string;
+  tags?: string[];
+  resource_type?: ResourceType;
+  max_results?: number;
+  next_cursor?: string;
+};
+
+type DeleteAssetsArgs = {
+  public_ids?: string[];
+  prefix?: string;
+  resource_type?: ResourceType;
+  dry_run?: boolean;
+  confirm?: boolean;
+};
+
+type RenameAssetArgs = {
+  from_public_id: string;
+  to_public_id: string;
+  resource_type?: ResourceType;
+  overwrite?: boolean;
+  dry_run?: boolean;
+  confirm?: boolean;
+};
+
+type UpdateTagsArgs = {
+  public_ids: string[];
+  add?: string[];
+  remove?: string[];
+  resource_type?: ResourceType;
+};
+
+type SetContextArgs = {
+  public_ids: string[];
+  context: Record<string, string>;
+  resource_type?: ResourceType;
+};
+
+type OpenEditorArgs = {
+  public_id: string;
+};
+
+type SaveTransformationArgs = {
+  name: string;
+  steps: TransformStep[];
+  /** Asset to build an example URL for. */
+  public_id?: string;
+  overwrite?: boolean;
+};
+
+const NAMED_TRANSFORMATION_RE = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * The structured asset shape shared by every tool that opens the upload UI.
+ */
+function summarizeAsset(r: any) {
+  return {
+    public_id: r.public_id,
+    format: r.format,
+    resource_type: r.resource_type,
+    created_at: r.created_at,
+    bytes: r.bytes,
+    url: r.url,
+    secure_url: r.secure_url,
+    tags: r.tags || [],
+    context: r.context?.custom ?? r.context ?? undefined,
+  };
+}
+
+/**
+ * One search hit as shown in the gallery and library grids.
+ */
+function summarizeSearchHit(r: any) {
+  return {
+    public_id: r.public_id,
+    format: r.format,
+    resource_type: r.resource_type,
+    folder: r.folder,
+    created_at: r.created_at,
+    bytes: r.bytes,
+    width: r.width,
+    height: r.height,
+    secure_url: r.secure_url,
+    tags: r.tags || [],
+  };
+}
+
+/** Bytes of newly stored assets in an upload or batch result (reused duplicates do not count). */
+function uploadedBytesOf(structured: any): number {
+  if (structured?.upload && !structured.operation) {
+    return structured.deduplicated ? 0 : Number(structured.upload.bytes) || 0;
+  }
+  return (structured?.batch?.items ?? [])
+    .filter((item: any) => item.status === "success" && !item.deduplicated)
+    .reduce((sum: number, item: any) => sum + (Number(item.upload?.bytes) || 0), 0);
+}
 
-function requireEnv(name: string) {
-  const v = process.env[name];
-  if (!v) throw new Error(`Missing required env var: ${name}`);
-  return v;
+/** One line on a job's state, followed by its result once it has finished. */
+function describeJob(job: Job) {
+  if (job.status === "running") {
+    const p = job.progress;
+    const percent = p?.total ? ` (${Math.floor((p.progress / p.total) * 100)}%)` : "";
+    return `⏳ Job ${job.id} (${job.tool}) is running${percent}. Call get_job again later, or subscribe to ${job.uri}.`;
+  }
+  return `Job ${job.id} (${job.tool}) ${job.status}.${job.message ? `\n\n${job.message}` : ""}`;
 }
 
 /**
- * Deterministic MCP Apps UI URI (portable across Goose + ChatGPT).
- * The UI hydrates from tool-result notifications / tool output.
+ * The tool whose scope covers reading and subscribing to a resource, so
+ * resources show a client nothing its tools would not. UI resources need none.
  */
-const UPLOAD_UI_URI = "ui://cloudinary/upload-v5";
-const DEMO_UI_URI = "ui://cloudinary/demo";
+function resourceReadTool(uri: string): string | undefined {
+  if (parseAssetUri(uri)) return "search_assets";
+  if (parseFolderUri(uri) !== undefined) return "browse_library";
+  if (parseJobUri(uri) !== undefined) return "get_job";
+  return undefined;
+}
+
+/** Largest thumbnail embedded in an asset resource; bigger ones are skipped. */
+const MAX_THUMBNAIL_BYTES = 1_000_000;
+
+function requireIds(ids: unknown, field = "public_ids"): string[] {
+  if (!Array.isArray(ids) || ids.length === 0 || ids.some((id) => typeof id !== "string" || !id)) {
+    throw invalidInput(`\`${field}\` must be a non-empty array of public IDs.`, field);
+  }
+  return ids as string[];
+}
+
+export type CloudinaryServerOptions = {
+  /** Operator-defined upload presets; none when omitted. */
+  presets?: UploadPresets;
+  /**
+   * The authenticated client that opened this session (HTTP only). Used for
+   * tool scopes when a request carries no auth info of its own, and for auditing.
+   */
+  identity?: AuthInfo;
+  /** Tenant whose account `storage` points at (see tenants.ts). */
+  tenant?: string;
+  /** Accepted upload inputs and where local files may come from; permissive when omitted. */
+  uploadPolicy?: UploadPolicy;
+  /** Shared by every session so each can forward entries (see audit.ts); in-memory only when omitted. */
+  audit?: AuditLog;
+  /** How long `sign_upload` signatures last; DIRECT_UPLOAD_TTL_SECONDS when omitted. */
+  directUploadTtlSeconds?: number;
+};
 
 export class CloudinaryServer {
   private server: Server;
-
-  constructor() {
-    cloudinary.config({
-      cloud_name: requireEnv("CLOUDINARY_CLOUD_NAME"),
-      api_key: requireEnv("CLOUDINARY_API_KEY"),
-      api_secret: requireEnv("CLOUDINARY_API_SECRET"),
-    });
+  private presets: UploadPresets;
+  private uploadPolicy: UploadPolicy;
+  private audit: AuditLog;
+  private directUploadTtl: number;
+  private log: Logger;
+  readonly identity?: AuthInfo;
+  readonly tenant?: string;
+  /** Resource URIs this session asked to be notified about. */
+  private subscriptions = new Set<string>();
+
+  constructor(
+    private storage: StorageBackend,
+    options: CloudinaryServerOptions = {}
+  ) {
+    this.presets = options.presets ?? new UploadPresets();
+    this.uploadPolicy = options.uploadPolicy ?? new UploadPolicy();
+    this.audit = options.audit ?? new AuditLog();
+    this.directUploadTtl = options.directUploadTtlSeconds ?? directUploadTtlFromEnv();
+    this.identity = options.identity;
+    this.tenant = options.tenant;
+    this.log = logger.child({ client_id: this.identity?.clientId ?? null, tenant: this.tenant ?? null });
 
     this.server = new Server(
       { name: "cloudinary-server", version: "1.2.0" },
-      { capabilities: { tools: {}, resources: {} } }
+      { capabilities: { tools: {}, resources: { subscribe: true }, prompts: {}, logging: {} } }
     );
 
     this.setupHandlers();
-    this.server.onerror = (err) => console.error("[MCP Error]", err);
+    assetChanges(this.storage).on("change", this.onAssetChange);
+    jobStore(this.storage).on("change", this.onJobChange);
+    this.audit.on("entry", this.onAuditEntry);
+    this.server.onerror = (err) => this.log.error("MCP error", { err, session_id: this.sessionId });
+  }
+
+  private get sessionId() {
+    return this.server.transport?.sessionId ?? null;
   }
 
   async connect(transport: Transport) {
@@ -48,40 +465,175 @@ export class CloudinaryServer {
   }
 
   async close() {
+    assetChanges(this.storage).off("change", this.onAssetChange);
+    jobStore(this.storage).off("change", this.onJobChange);
+    this.audit.off("entry", this.onAuditEntry);
     await this.server.close();
   }
 
+  /** Tell other sessions on the same storage that assets changed. */
+  private announce(...changes: AssetChange[]) {
+    for (const change of changes) assetChanges(this.storage).emit("change", change);
+  }
+
+  private onAssetChange = (change: AssetChange) => {
+    for (const uri of changedUris(change)) {
+      if (!this.subscriptions.has(uri)) continue;
+      this.server
+        .sendResourceUpdated({ uri })
+        .catch((err) => this.log.warn("resources/updated failed", { err, uri, session_id: this.sessionId }));
+    }
+  };
+
+  private onJobChange = (job: Job) => {
+    if (!this.subscriptions.has(job.uri)) return;
+    this.server
+      .sendResourceUpdated({ uri: job.uri })
+      .catch((err) => this.log.warn("resources/updated failed", { err, uri: job.uri, session_id: this.sessionId }));
+  };
+
+  /** Jobs are visible to the client that started them and to clients with the "admin" scope. */
+  private visibleJob(id: string, auth: AuthInfo | undefined): Job | undefined {
+    const job = jobStore(this.storage).get(id);
+    if (!job) return undefined;
+    return job.client_id === (auth?.clientId ?? null) || auth?.scopes.includes("admin") ? job : undefined;
+  }
+
+  /** Rejects like a disallowed tool call when the client may not call the resource's read tool. */
+  private requireResourceAccess(uri: string, auth: AuthInfo | undefined) {
+    const tool = resourceReadTool(uri);
+    if (tool && !isToolAllowed(auth, tool)) {
+      throw new McpError(ErrorCode.InvalidRequest, `Client "${auth?.clientId}" is not allowed to read resource: ${uri}`);
+    }
+  }
+
+  /**
+   * Forward audit entries for this session's tenant as MCP log messages: the
+   * client's own calls, or every client's with the "admin" scope.
+   */
+  private onAuditEntry = (entry: AuditEntry) => {
+    if (entry.tenant !== (this.tenant ?? null)) return;
+    const ownCall = entry.client_id === (this.identity?.clientId ?? null);
+    if (!ownCall && !this.identity?.scopes.includes("admin")) return;
+    this.server
+      .sendLoggingMessage({ level: "notice", logger: "audit", data: entry }, this.sessionId ?? undefined)
+      .catch(() => {});
+  };
+
+  /** Time a tool call, count it, log it and, for mutating tools, audit it. */
+  private async observeToolCall<T>(
+    tool: string,
+    args: unknown,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+    call: () => Promise<T>
+  ): Promise<T> {
+    const started = performance.now();
+    let result: T | undefined;
+    let thrown: unknown;
+    try {
+      return (result = await call());
+    } catch (err) {
+      thrown = err;
+      throw err;
+    } finally {
+      // Unknown tool names are not counted, so callers cannot create unbounded label values
+      if (!(thrown instanceof McpError && thrown.code === ErrorCode.MethodNotFound)) {
+        const seconds = (performance.now() - started) / 1000;
+        const structured = (result as { structuredContent?: any } | undefined)?.structuredContent;
+        const failed = thrown !== undefined || Boolean((result as { isError?: boolean } | undefined)?.isError);
+        const category = !failed
+          ? undefined
+          : thrown !== undefined
+            ? classifyError(thrown).category
+            : structured?.error?.category;
+
+        toolCalls.inc({ tool, outcome: failed ? "error" : "ok" });
+        toolDuration.observe({ tool }, seconds);
+        if (category) toolErrors.inc({ tool, category });
+        const bytes = uploadedBytesOf(structured);
+        if (bytes) uploadedBytes.inc({ tenant: this.tenant ?? "default" }, bytes);
+
+        const session_id = extra.sessionId ?? this.sessionId;
+        this.log.info("tool call", {
+          tool,
+          session_id,
+          request_id: extra.requestId,
+          outcome: failed ? "error" : "ok",
+          error_category: category,
+          duration_ms: Math.round(seconds * 1000),
+        });
+        if (MUTATING_TOOLS.has(tool)) {
+          // A job still running has no result yet; recordFinishedJob audits it when it finishes
+          const started: Job | undefined = !failed && structured?.job?.status === "running" ? structured.job : undefined;
+          this.audit.record({
+            time: new Date().toISOString(),
+            tool,
+            outcome: failed ? "error" : started ? "accepted" : "ok",
+            error_category: category,
+            client_id: (extra.authInfo ?? this.identity)?.clientId ?? null,
+            tenant: this.tenant ?? null,
+            session_id,
+            request_id: extra.requestId,
+            ...(started ? { job_id: started.id } : {}),
+            duration_ms: Math.round(seconds * 1000),
+            arguments: summarizeArguments(args ?? {}),
+            targets: failed || started ? [] : auditTargets(structured),
+          });
+        }
+      }
+    }
+  }
+
   // ---------------- Handlers ----------------
 
   private setupHandlers() {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    this.server.setRequestHandler(ListToolsRequestSchema, async (_request, extra) => ({
       tools: [
         {
           name: "upload",
           description:
-            "Upload media (images/videos) to Cloudinary. `file_path` for local; `file` for URL/data URI. Returns details + opens UI.",
+            "Upload media (images/videos) to Cloudinary. `file_path` for local; `file` for URL/data URI. Returns a job right away (poll `get_job` for the details) unless `wait` is true. Opens UI.",
           inputSchema: {
             type: "object",
             properties: {
               file_path: {
                 type: "string",
-                description: "Local filesystem path (best for Goose/local).",
+                description: `Local filesystem path (best for Goose/local).${this.localPathNote()}`,
               },
               file: {
                 type: "string",
                 description:
-                  "URL or base64 data URI (best for ChatGPT). Also accepts a local path.",
+                  this.uploadPolicy.allows("path")
+                    ? "URL or base64 data URI (best for ChatGPT). Also accepts a local path."
+                    : "URL or base64 data URI (best for ChatGPT).",
               },
               resource_type: {
                 type: "string",
                 enum: ["image", "video", "raw"],
               },
               public_id: { type: "string" },
+              folder: {
+                type: "string",
+                description: "Destination folder (nested under the preset's folder, if any).",
+              },
               overwrite: { type: "boolean" },
               tags: { type: "array", items: { type: "string" } },
+              upload_preset: this.presetSchema(),
+              dedupe: this.dedupeSchema(),
+              analyze: {
+                description:
+                  "Analyze after uploading: true for every feature, or a list. Add-on features need to be enabled on the account.",
+                anyOf: [{ type: "boolean" }, { type: "array", items: { type: "string", enum: [...ANALYSIS_FEATURES] } }],
+              },
+              auto_tag_threshold: this.autoTagThresholdSchema(),
+              wait: {
+                type: "boolean",
+                description: "Wait for the upload to finish and return its details instead of the running job.",
+              },
             },
             required: [],
           },
+          outputSchema: UPLOAD_OUTPUT,
           // ✅ MCP Apps standard: declare the UI resource here
           _meta: {
             ui: { resourceUri: UPLOAD_UI_URI },
@@ -89,572 +641,1985 @@ export class CloudinaryServer {
         },
 
         {
-          name: "show_demo_app",
-          description: "Shows a tiny MCP App demo UI (sanity check).",
-          inputSchema: { type: "object", properties: {}, required: [] },
-          _meta: {
-            ui: { resourceUri: DEMO_UI_URI },
+          name: "get_job",
+          description:
+            "Status of an upload job: running with progress, or the finished upload's details (`result`) or error. Jobs are kept for an hour after they finish.",
+          inputSchema: {
+            type: "object",
+            properties: { job_id: { type: "string" } },
+            required: ["job_id"],
           },
+          outputSchema: JOB_OUTPUT,
         },
-      ],
-    }));
-
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const args = request.params.arguments as {
-        file_path?: string;
-        file?: string;
-        resource_type?: "image" | "video" | "raw";
-        public_id?: string;
-        overwrite?: boolean;
-        tags?: string[];
-      };
-
-      if (request.params.name === "upload") return this.handleUpload(args);
 
-      if (request.params.name === "show_demo_app") {
-        return {
-          content: [{ type: "text", text: "Opening demo app…" }],
-          _meta: { ui: { resourceUri: DEMO_UI_URI } },
-          structuredContent: {
-            demo: {
-              message: "If you can see the demo UI, resources/read works ✅",
-              timestamp: new Date().toISOString(),
-            },
+        {
+          name: "cancel_job",
+          description:
+            "Cancel a running upload job. A remote URL that Cloudinary is already fetching may still be stored.",
+          inputSchema: {
+            type: "object",
+            properties: { job_id: { type: "string" } },
+            required: ["job_id"],
           },
-        };
-      }
-
-      throw new McpError(
-        ErrorCode.MethodNotFound,
-        `Unknown tool: ${request.params.name}`
-      );
-    });
+          outputSchema: JOB_OUTPUT,
+        },
 
-    // ✅ Deterministic resources list (no per-upload URIs)
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
-      resources: [
         {
-          uri: UPLOAD_UI_URI,
-          name: "Cloudinary Upload UI",
-          description: "Deterministic MCP App UI for showing the latest upload",
-          mimeType: "text/html;profile=mcp-app",
+          name: "sign_upload",
+          description:
+            "Sign a short-lived direct upload so a file goes from the browser straight to Cloudinary, without passing through the chat as data URIs. Scoped to one public ID, a folder and preset. Opens a drag-and-drop upload UI that reports each upload with `complete_direct_upload`.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              folder: {
+                type: "string",
+                description: "Destination folder (nested under the preset's folder, if any).",
+              },
+              upload_preset: this.presetSchema(),
+              resource_type: { type: "string", enum: ["image", "video", "raw", "auto"], description: 'Default "auto"' },
+              public_id: {
+                type: "string",
+                description: "Fixes the public ID; a random one is chosen otherwise. Required by presets with naming rules.",
+              },
+              tags: { type: "array", items: { type: "string" } },
+            },
+            required: [],
+          },
+          outputSchema: DIRECT_UPLOAD_OUTPUT,
+          _meta: {
+            ui: { resourceUri: DIRECT_UPLOAD_UI_URI },
+          },
         },
+
         {
-          uri: DEMO_UI_URI,
-          name: "Cloudinary Demo UI",
-          description: "Sanity-check MCP App UI",
-          mimeType: "text/html;profile=mcp-app",
+          name: "complete_direct_upload",
+          description:
+            "Report a file uploaded with a `sign_upload` signature. Checks the stored asset against the signature's public ID and size limit and returns its details, like `upload`.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              upload_id: { type: "string", description: "From sign_upload." },
+              public_id: { type: "string", description: "From Cloudinary's upload response." },
+              resource_type: { type: "string", enum: ["image", "video", "raw"] },
+            },
+            required: ["upload_id", "public_id"],
+          },
+          outputSchema: UPLOAD_OUTPUT,
+          _meta: {
+            ui: { resourceUri: UPLOAD_UI_URI },
+          },
         },
-      ],
-    }));
 
-    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-      const { uri } = request.params;
-
-      if (uri === UPLOAD_UI_URI) {
-        return {
-          contents: [
-            {
-              uri,
-              mimeType: "text/html;profile=mcp-app",
-              text: this.createDeterministicUploadUI(),
-              _meta: {
-                ui: {
-                  csp: {
-                    connectDomains: ["https://res.cloudinary.com"],
-                    resourceDomains: ["https://res.cloudinary.com"],
+        {
+          name: "upload_batch",
+          description:
+            "Upload many files at once: pass `items` (each a `file_path` or `file`) or a local `directory` plus `glob`. Uploads run with limited concurrency; each item reports success or failure without failing the batch. Opens a summary grid UI.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              items: {
+                type: "array",
+                maxItems: MAX_BATCH_ITEMS,
+                items: {
+                  type: "object",
+                  properties: {
+                    file_path: { type: "string" },
+                    file: { type: "string", description: "URL or base64 data URI." },
+                    public_id: { type: "string" },
+                    tags: { type: "array", items: { type: "string" } },
                   },
-                  prefersBorder: true,
                 },
               },
+              directory: {
+                type: "string",
+                description: `Local directory to upload from (used with \`glob\`).${this.localPathNote()}`,
+              },
+              glob: {
+                type: "string",
+                description: 'Pattern relative to `directory`, e.g. "*.jpg" or "**/*.{png,jpg}". Default "*".',
+              },
+              resource_type: {
+                type: "string",
+                enum: ["image", "video", "raw"],
+              },
+              overwrite: { type: "boolean" },
+              tags: {
+                type: "array",
+                items: { type: "string" },
+                description: "Tags added to every item.",
+              },
+              upload_preset: this.presetSchema(),
+              dedupe: this.dedupeSchema(),
+              concurrency: {
+                type: "number",
+                minimum: 1,
+                maximum: MAX_BATCH_CONCURRENCY,
+                description: "Parallel uploads (default 3).",
+              },
             },
-          ],
-        };
-      }
+            required: [],
+          },
+          outputSchema: UPLOAD_BATCH_OUTPUT,
+          _meta: {
+            ui: { resourceUri: GALLERY_UI_URI },
+          },
+        },
 
-      if (uri === DEMO_UI_URI) {
-        return {
-          contents: [
-            {
-              uri,
-              mimeType: "text/html;profile=mcp-app",
-              text: this.createDemoUI(),
-              _meta: {
-                ui: {
-                  prefersBorder: true,
-                },
+        {
+          name: "search_assets",
+          description:
+            "Search and list assets already uploaded to Cloudinary. Filter by type, tags, folder, format, creation date and size; page with `next_cursor`. Opens a gallery UI.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              expression: {
+                type: "string",
+                description:
+                  "Optional raw Cloudinary search expression, AND-ed with the other filters.",
+              },
+              resource_type: {
+                type: "string",
+                enum: ["image", "video", "raw"],
+              },
+              tags: {
+                type: "array",
+                items: { type: "string" },
+                description: "Assets must have all of these tags.",
+              },
+              folder: { type: "string", description: "Exact folder path." },
+              format: { type: "string", description: "File format, e.g. jpg, png, mp4." },
+              created_after: {
+                type: "string",
+                description: "ISO date/time; only assets created on or after it.",
+              },
+              created_before: {
+                type: "string",
+                description: "ISO date/time; only assets created on or before it.",
+              },
+              min_bytes: { type: "number", minimum: 0 },
+              max_bytes: { type: "number", minimum: 0 },
+              sort_by: {
+                type: "string",
+                enum: ["created_at", "uploaded_at", "public_id", "bytes"],
+              },
+              sort_direction: { type: "string", enum: ["asc", "desc"] },
+              max_results: {
+                type: "number",
+                minimum: 1,
+                maximum: 500,
+                description: "Page size (default 30).",
+              },
+              next_cursor: {
+                type: "string",
+                description: "Cursor returned by a previous search to fetch the next page.",
               },
             },
-          ],
-        };
-      }
-
-      throw new McpError(ErrorCode.InvalidRequest, `Resource not found: ${uri}`);
-    });
-  }
-
-  // ---------------- Upload logic ----------------
-
-  private async performUpload(args: {
-    file_path?: string;
-    file?: string;
-    resource_type?: "image" | "video" | "raw";
-    public_id?: string;
-    overwrite?: boolean;
-    tags?: string[];
-  }): Promise<UploadApiResponse> {
-    const options: any = {
-      resource_type: args.resource_type || "auto",
-      public_id: args.public_id,
-      overwrite: args.overwrite,
-      tags: args.tags,
-      chunk_size: 20_000_000,
-    };
+            required: [],
+          },
+          outputSchema: SEARCH_OUTPUT,
+          _meta: {
+            ui: { resourceUri: GALLERY_UI_URI },
+          },
+        },
 
-    const input = args.file_path ?? args.file;
-    if (!input) throw new Error("Missing required input: provide `file_path` or `file`.");
+        {
+          name: "browse_library",
+          description:
+            "Open the media library browser: a paginated grid of assets by folder and tag, with multi-select actions (tag, delete, transform, insert links into the chat).",
+          inputSchema: {
+            type: "object",
+            properties: {
+              folder: { type: "string", description: 'Folder path; "" or omitted for all assets.' },
+              tags: {
+                type: "array",
+                items: { type: "string" },
+                description: "Assets must have all of these tags.",
+              },
+              resource_type: {
+                type: "string",
+                enum: ["image", "video", "raw"],
+              },
+              max_results: {
+                type: "number",
+                minimum: 1,
+                maximum: 100,
+                description: "Page size (default 24).",
+              },
+              next_cursor: {
+                type: "string",
+                description: "Cursor returned by a previous page.",
+              },
+            },
+            required: [],
+          },
+          outputSchema: LIBRARY_OUTPUT,
+          _meta: {
+            ui: { resourceUri: LIBRARY_UI_URI },
+          },
+        },
 
-    // URL upload
-    if (/^https?:\/\//i.test(input)) {
-      return (await cloudinary.uploader.upload(input, options)) as UploadApiResponse;
-    }
+        {
+          name: "delete_assets",
+          description:
+            "Delete assets by `public_ids` (one or many) or by `prefix`. Destructive: without `confirm: true` (or with `dry_run: true`) only previews what would be deleted.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              public_ids: { type: "array", items: { type: "string" } },
+              prefix: {
+                type: "string",
+                description: "Delete every asset whose public ID starts with this prefix.",
+              },
+              resource_type: {
+                type: "string",
+                enum: ["image", "video", "raw"],
+              },
+              dry_run: {
+                type: "boolean",
+                description: "Only list the assets that would be deleted.",
+              },
+              confirm: {
+                type: "boolean",
+                description: "Must be true to actually delete.",
+              },
+            },
+            required: [],
+          },
+          outputSchema: ASSET_OPERATION_OUTPUT,
+          _meta: {
+            ui: { resourceUri: UPLOAD_UI_URI },
+          },
+        },
 
-    // data URI upload
-    if (/^data:/i.test(input)) {
-      const match = input.match(/^data:([^;]+);base64,(.+)$/);
-      if (!match) throw new Error("Invalid data URI format. Expected data:<mime>;base64,<data>");
+        {
+          name: "rename_asset",
+          description:
+            "Rename or move an asset (a `/` in `to_public_id` moves it into that folder path). With `overwrite: true` it is destructive: without `confirm: true` (or with `dry_run: true`) it only previews the asset it would replace.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              from_public_id: { type: "string" },
+              to_public_id: { type: "string" },
+              resource_type: {
+                type: "string",
+                enum: ["image", "video", "raw"],
+              },
+              overwrite: {
+                type: "boolean",
+                description: "Replace an existing asset at `to_public_id`. Needs `confirm: true`.",
+              },
+              dry_run: {
+                type: "boolean",
+                description: "Only show what the rename would replace.",
+              },
+              confirm: {
+                type: "boolean",
+                description: "Must be true to rename with `overwrite`.",
+              },
+            },
+            required: ["from_public_id", "to_public_id"],
+          },
+          outputSchema: ASSET_OPERATION_OUTPUT,
+          _meta: {
+            ui: { resourceUri: UPLOAD_UI_URI },
+          },
+        },
+
+        {
+          name: "update_tags",
+          description: "Add and/or remove tags on one or more assets.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              public_ids: { type: "array", items: { type: "string" } },
+              add: { type: "array", items: { type: "string" } },
+              remove: { type: "array", items: { type: "string" } },
+              resource_type: {
+                type: "string",
+                enum: ["image", "video", "raw"],
+              },
+            },
+            required: ["public_ids"],
+          },
+          outputSchema: ASSET_OPERATION_OUTPUT,
+          _meta: {
+            ui: { resourceUri: UPLOAD_UI_URI },
+          },
+        },
+
+        {
+          name: "set_context",
+          description:
+            "Set contextual metadata (key/value pairs such as `alt` or `caption`) on one or more assets.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              public_ids: { type: "array", items: { type: "string" } },
+              context: {
+                type: "object",
+                additionalProperties: { type: "string" },
+              },
+              resource_type: {
+                type: "string",
+                enum: ["image", "video", "raw"],
+              },
+            },
+            required: ["public_ids", "context"],
+          },
+          outputSchema: ASSET_OPERATION_OUTPUT,
+          _meta: {
+            ui: { resourceUri: UPLOAD_UI_URI },
+          },
+        },
+
+        {
+          name: "analyze_asset",
+          description:
+            "Analyze an existing image or video: auto-tagging with confidences, a caption to use as alt text, OCR text, moderation status, dominant colors and faces. Features the account does not support are reported as unavailable. Confident tags are added to the asset.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              public_id: { type: "string" },
+              resource_type: { type: "string", enum: ["image", "video"] },
+              features: {
+                type: "array",
+                items: { type: "string", enum: [...ANALYSIS_FEATURES] },
+                description: "Defaults to all",
+              },
+              auto_tag_threshold: this.autoTagThresholdSchema(),
+            },
+            required: ["public_id"],
+          },
+          outputSchema: ASSET_OPERATION_OUTPUT,
+          _meta: {
+            ui: { resourceUri: UPLOAD_UI_URI },
+          },
+        },
+
+        {
+          name: "transform",
+          description:
+            "Build a Cloudinary delivery URL for an asset from a validated list of transformation steps (resize/crop, gravity, effects, overlays, quality/format, rotation). Steps are chained in order.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              public_id: { type: "string" },
+              resource_type: { type: "string", enum: ["image", "video"] },
+              format: {
+                type: "string",
+                description: "Optional delivery file extension, e.g. jpg or mp4.",
+              },
+              steps: {
+                type: "array",
+                minItems: 1,
+                items: {
+                  type: "object",
+                  properties: {
+                    width: { type: "number" },
+                    height: { type: "number" },
+                    crop: { type: "string", enum: [...CROP_MODES] },
+                    gravity: { type: "string", enum: [...GRAVITIES] },
+                    aspect_ratio: { type: "string", description: 'e.g. "16:9" or "1.5"' },
+                    zoom: { type: "number" },
+                    effect: { type: "string", enum: Object.keys(EFFECTS) },
+                    effect_value: { type: "number" },
+                    radius: {
+                      oneOf: [{ type: "number" }, { type: "string", enum: ["max"] }],
+                    },
+                    angle: { type: "number" },
+                    quality: {
+                      oneOf: [{ type: "number" }, { type: "string", enum: [...QUALITIES] }],
+                    },
+                    fetch_format: { type: "string", enum: [...FETCH_FORMATS] },
+                    background: { type: "string" },
+                    opacity: { type: "number" },
+                    dpr: { oneOf: [{ type: "number" }, { type: "string", enum: ["auto"] }] },
+                    overlay: {
+                      type: "object",
+                      properties: {
+                        public_id: { type: "string" },
+                        text: { type: "string" },
+                        font_family: { type: "string" },
+                        font_size: { type: "number" },
+                        color: { type: "string" },
+                        width: { type: "number" },
+                        opacity: { type: "number" },
+                        gravity: { type: "string", enum: [...GRAVITIES] },
+                        x: { type: "number" },
+                        y: { type: "number" },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            required: ["public_id", "steps"],
+          },
+          outputSchema: TRANSFORM_OUTPUT,
+        },
+
+        {
+          name: "video_poster_frames",
+          description:
+            "Build poster/thumbnail image URLs from frames of a video at given offsets (seconds, percentages like \"50p\", or \"auto\").",
+          inputSchema: {
+            type: "object",
+            properties: {
+              public_id: { type: "string" },
+              offsets: {
+                type: "array",
+                maxItems: MAX_POSTER_FRAMES,
+                items: { oneOf: [{ type: "number" }, { type: "string" }] },
+                description: 'Default ["auto"]',
+              },
+              width: { type: "number" },
+              height: { type: "number" },
+              format: { type: "string", enum: ["jpg", "png", "webp"] },
+            },
+            required: ["public_id"],
+          },
+          outputSchema: VIDEO_OUTPUT,
+        },
+
+        {
+          name: "video_trim",
+          description:
+            "Build a URL for a trimmed clip of a video. Give start_offset and end_offset or duration (seconds or percentages like \"10p\").",
+          inputSchema: {
+            type: "object",
+            properties: {
+              public_id: { type: "string" },
+              start_offset: { oneOf: [{ type: "number" }, { type: "string" }] },
+              end_offset: { oneOf: [{ type: "number" }, { type: "string" }] },
+              duration: { type: "number", description: "Clip length in seconds (instead of end_offset)" },
+              width: { type: "number", description: "Optional max width of the clip" },
+              format: { type: "string", enum: [...VIDEO_FORMATS] },
+            },
+            required: ["public_id"],
+          },
+          outputSchema: VIDEO_OUTPUT,
+        },
+
+        {
+          name: "video_streaming",
+          description: "Build adaptive streaming manifest URLs (HLS .m3u8 and/or DASH .mpd) from a streaming profile.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              public_id: { type: "string" },
+              profile: { type: "string", enum: [...STREAMING_PROFILES], description: "Default auto" },
+              protocols: {
+                type: "array",
+                items: { type: "string", enum: Object.keys(STREAMING_FORMATS) },
+                description: "Default both",
+              },
+            },
+            required: ["public_id"],
+          },
+          outputSchema: VIDEO_OUTPUT,
+        },
+
+        {
+          name: "video_transcode",
+          description:
+            "Request eager, asynchronous transcodes of an uploaded video (formats, sizes, codecs, bitrates, streaming profiles). Returns the derived URLs; they work once processing finishes.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              public_id: { type: "string" },
+              transcodes: {
+                type: "array",
+                minItems: 1,
+                maxItems: MAX_TRANSCODES,
+                items: {
+                  type: "object",
+                  properties: {
+                    format: { type: "string", enum: [...VIDEO_FORMATS] },
+                    width: { type: "number" },
+                    height: { type: "number" },
+                    quality: { oneOf: [{ type: "number" }, { type: "string", enum: ["auto"] }] },
+                    video_codec: { type: "string", enum: [...VIDEO_CODECS] },
+                    bit_rate: { type: "string", description: "e.g. 800k or 2m" },
+                    streaming_profile: {
+                      type: "string",
+                      enum: [...STREAMING_PROFILES],
+                      description: "Needs format m3u8 or mpd",
+                    },
+                  },
+                },
+              },
+              notification_url: {
+                type: "string",
+                description: "Webhook called when the transcodes are ready. Must be https, on a public host.",
+              },
+            },
+            required: ["public_id", "transcodes"],
+          },
+          outputSchema: VIDEO_OUTPUT,
+        },
+
+        {
+          name: "open_transform_editor",
+          description:
+            "Open an interactive transformation editor for an image: adjust size, crop, gravity, effects, quality and format with a live before/after preview, then send the URL to the chat or save it as a named transformation.",
+          inputSchema: {
+            type: "object",
+            properties: { public_id: { type: "string" } },
+            required: ["public_id"],
+          },
+          outputSchema: EDITOR_OUTPUT,
+          _meta: { ui: { resourceUri: EDITOR_UI_URI } },
+        },
+
+        {
+          name: "save_transformation",
+          description:
+            "Save transformation steps (same shape as `transform`) as a named transformation, reusable in URLs as t_<name>.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              name: { type: "string", description: "Letters, digits, _ and - (max 64)" },
+              steps: { type: "array", minItems: 1, items: { type: "object" }, description: "Same steps as `transform`" },
+              public_id: { type: "string", description: "Optional asset for an example URL" },
+              overwrite: { type: "boolean", description: "Replace an existing transformation with this name" },
+            },
+            required: ["name", "steps"],
+          },
+          outputSchema: NAMED_TRANSFORMATION_OUTPUT,
+        },
+
+        {
+          name: "show_demo_app",
+          description: "Shows a tiny MCP App demo UI (sanity check).",
+          inputSchema: { type: "object", properties: {}, required: [] },
+          outputSchema: DEMO_OUTPUT,
+          _meta: {
+            ui: { resourceUri: DEMO_UI_URI },
+          },
+        },
+      ].filter((tool) => isToolAllowed(extra.authInfo ?? this.identity, tool.name)),
+    }));
+
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const args = request.params.arguments as UploadArgs;
+      const onProgress = createProgressReporter(extra);
+
+      const auth = extra.authInfo ?? this.identity;
+      if (!isToolAllowed(auth, request.params.name)) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `Client "${auth?.clientId}" is not allowed to call tool: ${request.params.name}`
+        );
+      }
+
+      return this.observeToolCall(request.params.name, request.params.arguments, extra, async () => {
+        if (request.params.name === "upload") return this.handleUpload(args, extra, onProgress);
+
+        if (request.params.name === "get_job") {
+          return this.handleGetJob(request.params.arguments as JobArgs, auth);
+        }
+
+        if (request.params.name === "cancel_job") {
+          return this.handleCancelJob(request.params.arguments as JobArgs, auth);
+        }
+
+        if (request.params.name === "sign_upload") {
+          return this.handleSignUpload(request.params.arguments as SignUploadArgs, auth);
+        }
+
+        if (request.params.name === "complete_direct_upload") {
+          return this.handleCompleteDirectUpload(request.params.arguments as CompleteDirectUploadArgs, auth);
+        }
+
+        if (request.params.name === "upload_batch") {
+          return this.handleUploadBatch(request.params.arguments as UploadBatchArgs, onProgress);
+        }
+
+        if (request.params.name === "search_assets") {
+          return this.handleSearchAssets(request.params.arguments as SearchAssetsArgs);
+        }
+
+        if (request.params.name === "browse_library") {
+          return this.handleBrowseLibrary(request.params.arguments as BrowseLibraryArgs);
+        }
+
+        if (request.params.name === "delete_assets") {
+          return this.handleDeleteAssets(request.params.arguments as DeleteAssetsArgs);
+        }
+
+        if (request.params.name === "rename_asset") {
+          return this.handleRenameAsset(request.params.arguments as RenameAssetArgs);
+        }
+
+        if (request.params.name === "update_tags") {
+          return this.handleUpdateTags(request.params.arguments as UpdateTagsArgs);
+        }
+
+        if (request.params.name === "set_context") {
+          return this.handleSetContext(request.params.arguments as SetContextArgs);
+        }
+
+        if (request.params.name === "analyze_asset") {
+          return this.handleAnalyzeAsset(request.params.arguments as AnalyzeAssetArgs);
+        }
+
+        if (request.params.name === "transform") {
+          return this.handleTransform(request.params.arguments as TransformArgs);
+        }
+
+        if (request.params.name === "video_poster_frames") {
+          return this.handleVideoPosterFrames(request.params.arguments as PosterFramesArgs);
+        }
+
+        if (request.params.name === "video_trim") {
+          return this.handleVideoTrim(request.params.arguments as TrimArgs);
+        }
+
+        if (request.params.name === "video_streaming") {
+          return this.handleVideoStreaming(request.params.arguments as StreamingArgs);
+        }
+
+        if (request.params.name === "video_transcode") {
+          return this.handleVideoTranscode(request.params.arguments as TranscodeArgs);
+        }
+
+        if (request.params.name === "open_transform_editor") {
+          return this.handleOpenEditor(request.params.arguments as OpenEditorArgs);
+        }
+
+        if (request.params.name === "save_transformation") {
+          return this.handleSaveTransformation(request.params.arguments as SaveTransformationArgs);
+        }
+
+        if (request.params.name === "show_demo_app") {
+          return {
+            content: [{ type: "text", text: "Opening demo app…" }],
+            _meta: { ui: { resourceUri: DEMO_UI_URI } },
+            structuredContent: {
+              demo: {
+                message: "If you can see the demo UI, resources/read works ✅",
+                timestamp: new Date().toISOString(),
+              },
+            },
+          };
+        }
+
+        throw new McpError(
+          ErrorCode.MethodNotFound,
+          `Unknown tool: ${request.params.name}`
+        );
+      });
+    });
+
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({ prompts: listPrompts() }));
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      try {
+        return {
+          messages: [{ role: "user", content: { type: "text", text: renderPrompt(name, args) } }],
+        };
+      } catch (err) {
+        if (err instanceof PromptArgumentError) throw new McpError(ErrorCode.InvalidParams, err.message);
+        throw err;
+      }
+    });
+
+    // ✅ Deterministic resources list; assets and folders are reachable through templates
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: UI_APPS.map(({ uri, name, description }) => ({ uri, name, description, mimeType: UI_MIME_TYPE })),
+    }));
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async (_request, extra) => ({
+      resourceTemplates: [
+        {
+          tool: "search_assets",
+          uriTemplate: ASSET_URI_TEMPLATE,
+          name: "Cloudinary asset",
+          description:
+            "Metadata of one asset as JSON, plus a thumbnail for images. resource_type is image, video or raw; public_id may contain slashes.",
+          mimeType: "application/json",
+        },
+        {
+          tool: "browse_library",
+          uriTemplate: FOLDER_URI_TEMPLATE,
+          name: "Cloudinary folder",
+          description: "The assets in a folder (first 100) as JSON, each with its asset URI.",
+          mimeType: "application/json",
+        },
+        {
+          tool: "get_job",
+          uriTemplate: JOB_URI_TEMPLATE,
+          name: "Upload job",
+          description: "Status, progress and result of an upload job as JSON (the same as get_job).",
+          mimeType: "application/json",
+        },
+      ]
+        .filter(({ tool }) => isToolAllowed(extra.authInfo ?? this.identity, tool))
+        .map(({ tool: _, ...template }) => template),
+    }));
+
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+      const { uri } = request.params;
+      this.requireResourceAccess(uri, extra.authInfo ?? this.identity);
+      const jobId = parseJobUri(uri);
+      if (jobId !== undefined) {
+        if (!this.visibleJob(jobId, extra.authInfo ?? this.identity)) {
+          throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+        }
+      } else if (parseAssetUri(uri) === undefined && parseFolderUri(uri) === undefined) {
+        throw new McpError(ErrorCode.InvalidParams, `Only asset, folder and job resources can be subscribed to: ${uri}`);
+      }
+      this.subscriptions.add(uri);
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.delete(request.params.uri);
+      return {};
+    });
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+      const { uri } = request.params;
+      this.requireResourceAccess(uri, extra.authInfo ?? this.identity);
+
+      const asset = parseAssetUri(uri);
+      if (asset) return this.readAssetResource(uri, asset.resource_type, asset.public_id);
+
+      const folder = parseFolderUri(uri);
+      if (folder !== undefined) return this.readFolderResource(uri, folder);
+
+      const jobId = parseJobUri(uri);
+      if (jobId !== undefined) {
+        const job = this.visibleJob(jobId, extra.authInfo ?? this.identity);
+        if (!job) throw new McpError(ErrorCode.InvalidRequest, `Resource not found: ${uri}`);
+        return { contents: [{ uri, mimeType: "application/json", text: JSON.stringify(job, null, 2) }] };
+      }
+
+      const app = findUiApp(uri);
+      if (app) {
+        const domains = this.deliveryDomains();
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: UI_MIME_TYPE,
+              text: loadUiBundle(app),
+              _meta: {
+                ui: {
+                  csp: {
+                    ...(app.csp.connect ? { connectDomains: this.connectDomains() } : {}),
+                    ...(app.csp.resources ? { resourceDomains: domains } : {}),
+                  },
+                  prefersBorder: true,
+                },
+              },
+            },
+          ],
+        };
+      }
+
+      throw new McpError(ErrorCode.InvalidRequest, `Resource not found: ${uri}`);
+    });
+  }
+
+  // ---------------- Asset resources ----------------
+
+  private async readAssetResource(uri: string, resourceType: ResourceType, publicId: string) {
+    let r: any;
+    try {
+      r = await this.storage.getResource(publicId, resourceType);
+    } catch (err: any) {
+      if (err?.http_code === 404 || err?.error?.http_code === 404) {
+        throw new McpError(ErrorCode.InvalidRequest, `Resource not found: ${uri}`);
+      }
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Reading ${uri} failed: ${err instanceof Error ? err.message : String(err?.error?.message ?? err)}`
+      );
+    }
+
+    const metadata = {
+      uri,
+      ...summarizeAsset(r),
+      folder: r.asset_folder ?? r.folder,
+      version: r.version,
+      width: r.width,
+      height: r.height,
+      duration: r.duration,
+    };
+    const contents: ({ uri: string; mimeType: string; text: string } | { uri: string; mimeType: string; blob: string })[] = [
+      { uri, mimeType: "application/json", text: JSON.stringify(metadata, null, 2) },
+    ];
+
+    // Thumbnails are best-effort: metadata is still useful without one
+    if (resourceType === "image") {
+      try {
+        const thumb = await this.storage.download(publicId, {
+          resource_type: "image",
+          format: "jpg",
+          transformation: [{ width: 256, height: 256, crop: "limit" }],
+        });
+        if (thumb.data.length <= MAX_THUMBNAIL_BYTES) {
+          contents.push({ uri, mimeType: thumb.mimeType, blob: thumb.data.toString("base64") });
+        }
+      } catch (err) {
+        this.log.warn("thumbnail failed", { err, uri });
+      }
+    }
+
+    return { contents };
+  }
+
+  private async readFolderResource(uri: string, folder: string) {
+    try {
+      const result = await this.storage.search({ folder, max_results: 100 });
+      const listing = {
+        uri,
+        folder,
+        total_count: result.total_count,
+        truncated: Boolean(result.next_cursor),
+        assets: result.resources.map((r: any) => ({
+          uri: assetUri(r.resource_type, r.public_id),
+          public_id: r.public_id,
+          resource_type: r.resource_type,
+          format: r.format,
+          bytes: r.bytes,
+          created_at: r.created_at,
+        })),
+      };
+      return { contents: [{ uri, mimeType: "application/json", text: JSON.stringify(listing, null, 2) }] };
+    } catch (err) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Reading ${uri} failed: ${err instanceof Error ? err.message : String(err)}`
+      );
+    }
+  }
+
+  /**
+   * Origins the UIs load media from: Cloudinary's CDN plus wherever the
+   * storage backend delivers (e.g. the local emulator's HTTP server).
+   */
+  private deliveryDomains() {
+    const origin = new URL(this.storage.url("sample")).origin;
+    return [...new Set(["https://res.cloudinary.com", origin])];
+  }
+
+  /** Delivery origins plus Cloudinary's upload API, which direct uploads post to. */
+  private connectDomains() {
+    return [...this.deliveryDomains(), "https://api.cloudinary.com"];
+  }
+
+  /** JSON schema for the `upload_preset` argument, listing configured presets. */
+  private presetSchema() {
+    const names = this.presets.names();
+    return {
+      type: "string",
+      ...(names.length ? { enum: names } : {}),
+      description: names.length
+        ? `Named server-side upload preset (folder, tags, limits). Available: ${this.presets.describe()}.`
+        : "Named server-side upload preset. None are configured on this server.",
+    };
+  }
+
+  private localPathNote() {
+    const { roots } = this.uploadPolicy.config;
+    if (!this.uploadPolicy.allows("path")) return " Not accepted on this server.";
+    return roots.length ? ` Must be inside ${roots.join(" or ")}.` : "";
+  }
+
+  private dedupeSchema() {
+    return {
+      type: "string",
+      enum: [...DEDUPE_MODES],
+      description:
+        'If the same file was uploaded before: "reuse" returns the existing asset, "upload" uploads anyway (default unless the preset says otherwise), "fail" rejects the upload. URLs are not checked.',
+    };
+  }
+
+  private autoTagThresholdSchema() {
+    return {
+      type: "number",
+      minimum: 0,
+      maximum: 1,
+      description: "Tags at or above this confidence are added to the asset (default 0.7)",
+    };
+  }
+
+  // ---------------- Upload logic ----------------
+
+  /**
+   * Upload with duplicate detection: local files and data URIs are hashed
+   * first and looked up by content (see dedupe.ts). URLs are not hashed, since
+   * that would mean downloading them twice. The preset is applied first, so a
+   * duplicate only counts inside the folder, and with the tags, the upload
+   * would get. `signal` cancels the upload (see jobs.ts).
+   */
+  private async performUpload(
+    args: UploadArgs,
+    onProgress?: ProgressFn,
+    signal?: AbortSignal
+  ): Promise<UploadOutcome> {
+    const input = args.file_path ?? args.file;
+    if (!input) throw invalidInput("Missing required input: provide `file_path` or `file`.", "file_path");
+    // Upload from the checked input: local paths come back fully resolved
+    const checked = await this.uploadPolicy.check(input);
+    const preset = this.presets.resolve(args.upload_preset);
+    const options = await this.uploadOptions(args, checked, preset);
+    const mode = args.dedupe ?? preset?.preset.dedupe ?? "upload";
+    const hash = await this.contentHash(checked);
+    if (!hash) return { result: await this.uploadAndAnnounce(checked, options, onProgress, signal), deduplicated: false };
+
+    const index = contentIndex(this.storage);
+    const resourceType = options.resource_type === "auto" ? undefined : options.resource_type;
+    return index.exclusive(hash, async () => {
+      if (mode !== "upload") {
+        const existing = await index.find(hash, { resource_type: resourceType, folder: options.folder, tags: options.tags });
+        if (existing && mode === "fail") throw new DuplicateUploadError(existing);
+        if (existing) return { result: existing, deduplicated: true };
+      }
+      const result = await this.uploadAndAnnounce(
+        checked,
+        { ...options, tags: [...(options.tags ?? []), contentTag(hash)] },
+        onProgress,
+        signal
+      );
+      index.remember(hash, result);
+      return { result, deduplicated: false };
+    });
+  }
+
+  /** SHA-256 of a local file or data URI; undefined for URLs and malformed input. */
+  private async contentHash(input: string) {
+    if (/^https?:\/\//i.test(input)) return undefined;
+    if (/^data:/i.test(input)) {
+      const match = input.match(/^data:([^;]+);base64,(.+)$/);
+      return match ? hashBuffer(Buffer.from(match[2], "base64")) : undefined;
+    }
+    return hashFile(input);
+  }
+
+  /**
+   * The upload's options with the preset merged in. Preset policy is checked
+   * here, against what is known about the input, before any bytes leave the server.
+   */
+  private async uploadOptions(
+    args: UploadArgs,
+    input: string,
+    preset: ReturnType<UploadPresets["resolve"]>
+  ): Promise<Record<string, any>> {
+    const baseOptions: any = {
+      resource_type: args.resource_type || "auto",
+      public_id: args.public_id,
+      folder: args.folder,
+      overwrite: args.overwrite,
+      tags: args.tags,
+      chunk_size: UPLOAD_CHUNK_SIZE,
+    };
+
+    if (/^https?:\/\//i.test(input)) {
+      return this.presets.apply(preset, baseOptions, {
+        filename: new URL(input).pathname,
+        bytes: preset?.preset.max_bytes !== undefined ? await remoteSize(input, this.uploadPolicy) : undefined,
+      });
+    }
+    if (/^data:/i.test(input)) {
+      const match = input.match(/^data:([^;]+);base64,(.+)$/);
+      if (!match) throw invalidInput("Invalid data URI format. Expected data:<mime>;base64,<data>", "file");
+      return this.presets.apply(preset, baseOptions, { mimeType: match[1], bytes: Buffer.byteLength(match[2], "base64") });
+    }
+    const { size } = await stat(input);
+    return this.presets.apply(preset, baseOptions, { filename: input, bytes: size });
+  }
+
+  private async uploadAndAnnounce(
+    input: string,
+    options: Record<string, any>,
+    onProgress?: ProgressFn,
+    signal?: AbortSignal
+  ) {
+    const result = await this.sendUpload(input, options, onProgress, signal);
+    this.announce({
+      resource_type: result.resource_type,
+      public_id: result.public_id,
+      folder: result.asset_folder ?? result.folder,
+    });
+    return result;
+  }
+
+  /** Send a checked input with options from `uploadOptions`. */
+  private async sendUpload(
+    input: string,
+    options: Record<string, any>,
+    onProgress?: ProgressFn,
+    signal?: AbortSignal
+  ): Promise<UploadApiResponse> {
+    signal?.throwIfAborted();
+
+    // URL upload (the backend fetches it; no byte progress available)
+    if (/^https?:\/\//i.test(input)) {
+      onProgress?.(0, 1, "Fetching the remote file");
+      const result = await this.storage.upload(
+        { kind: "url", url: input, fetch: (url) => this.uploadPolicy.fetch(url, { signal }) },
+        options
+      );
+      onProgress?.(1, 1, "Upload complete");
+      return result;
+    }
+
+    // data URI upload
+    if (/^data:/i.test(input)) {
+      const match = input.match(/^data:([^;]+);base64,(.+)$/)!;
       const buffer = Buffer.from(match[2], "base64");
+      return this.storage.upload(
+        {
+          kind: "stream",
+          stream: abortable(
+            withProgress(Readable.from(sliceBuffer(buffer, STREAM_SLICE_SIZE)), buffer.length, onProgress),
+            signal
+          ),
+          size: buffer.length,
+          mimeType: match[1],
+        },
+        options
+      );
+    }
+
+    // local path upload: stream from disk instead of buffering the whole file
+    const { size } = await stat(input);
+    return this.storage.upload(
+      {
+        kind: "stream",
+        stream: abortable(withProgress(createReadStream(input), size, onProgress), signal),
+        size,
+        filename: path.basename(input),
+      },
+      options
+    );
+  }
+
+  /**
+   * Uploads run as jobs (see jobs.ts), so they outlive the request and can be
+   * cancelled. The call returns the running job at once, or with `wait` the
+   * finished upload.
+   */
+  private async handleUpload(
+    args: UploadArgs = {},
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+    onProgress?: ProgressFn
+  ) {
+    let analysisRequest: AnalysisRequest | undefined;
+    try {
+      if (args.dedupe !== undefined && !DEDUPE_MODES.includes(args.dedupe)) {
+        throw invalidInput(`dedupe must be one of ${DEDUPE_MODES.join(", ")}`, "dedupe");
+      }
+      if (!args.file_path && !args.file) {
+        throw invalidInput("Missing required input: provide `file_path` or `file`.", "file_path");
+      }
+      // Validate before uploading so bad options do not leave an unanalyzed upload
+      analysisRequest = args.analyze ? resolveAnalysisRequest(args.analyze, args.auto_tag_threshold) : undefined;
+    } catch (err) {
+      return toolErrorResult("Upload failed", err);
+    }
+
+    const jobs = jobStore(this.storage);
+    const started = performance.now();
+    // Progress notifications belong to this request, so they only make sense while it waits
+    const requestProgress = args.wait ? onProgress : undefined;
+    const job = jobs.start("upload", (extra.authInfo ?? this.identity)?.clientId ?? null, async (signal, report) => {
+      try {
+        return await this.runUpload(args, analysisRequest, signal, (progress, total, message) => {
+          report(progress, total, message);
+          requestProgress?.(progress, total, message);
+        });
+      } catch (err) {
+        return toolErrorResult("Upload failed", err);
+      }
+    });
+
+    // ✅ Always open the SAME deterministic UI resource; it follows the job until it finishes
+    if (!args.wait) {
+      jobs.settled(job.id).then((finished) => finished && this.recordFinishedJob(finished, args, extra, started));
+      return {
+        content: [
+          {
+            type: "text",
+            text: `⏳ Upload started as job ${job.id}. Call get_job with this job_id for the result, or subscribe to ${job.uri}.`,
+          },
+        ],
+        structuredContent: { job },
+        _meta: { ui: { resourceUri: UPLOAD_UI_URI } },
+      };
+    }
+
+    const { message, result, ...finished } = (await jobs.settled(job.id))!;
+    if (finished.status === "succeeded") {
+      return {
+        content: [{ type: "text", text: message ?? "" }],
+        structuredContent: { ...(result as object), job: finished },
+        _meta: { ui: { resourceUri: UPLOAD_UI_URI } },
+      };
+    }
+    const error = finished.error!;
+    return {
+      content: [
+        {
+          type: "text",
+          text: finished.status === "failed" ? message ?? "" : `Upload failed: ${error.message} [${error.category}]`,
+        },
+      ],
+      structuredContent: { error, job: finished },
+      isError: true,
+    };
+  }
+
+  /** The upload tool's result once the upload (and any analysis) is done. */
+  private async runUpload(
+    args: UploadArgs,
+    analysisRequest: AnalysisRequest | undefined,
+    signal: AbortSignal,
+    onProgress: ProgressFn
+  ) {
+    const { result, deduplicated } = await this.performUpload(args, onProgress, signal);
+
+    let response = summarizeAsset(result);
+    let analysis: AssetAnalysis | undefined;
+    if (analysisRequest) {
+      analysis = await this.analyzeAfterUpload(response, analysisRequest);
+      if (appliedTags(analysis, analysisRequest.auto_tag_threshold).length) {
+        response = summarizeAsset(await this.storage.getResource(response.public_id, response.resource_type));
+      }
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text:
+            (deduplicated
+              ? "♻️ Same content was already uploaded; returning the existing asset instead of uploading again."
+              : "🎉 Upload successful!") +
+            `\n\n${JSON.stringify(response, null, 2)}` +
+            (analysis ? `\n\n🤖 Analysis\n${describeAnalysis(analysis, analysisRequest?.auto_tag_threshold)}` : ""),
+        },
+      ],
+
+      // ✅ This is what the UI hydrates from (portable)
+      structuredContent: {
+        upload: response,
+        deduplicated,
+        analysis,
+        transformations: this.transformationExamples(response),
+        video: this.videoExamples({ ...response, duration: result.duration }),
+        prompts: this.chatPrompts(response),
+      },
+    };
+  }
+
+  /** Metrics and the audit entry for an upload job that finished after its call returned. */
+  private recordFinishedJob(
+    job: Job,
+    args: UploadArgs,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+    started: number
+  ) {
+    const failed = job.status !== "succeeded";
+    const duration_ms = Math.round(performance.now() - started);
+    const bytes = uploadedBytesOf(job.result);
+    if (bytes) uploadedBytes.inc({ tenant: this.tenant ?? "default" }, bytes);
+
+    const session_id = extra.sessionId ?? this.sessionId;
+    this.log.info("job finished", { job_id: job.id, tool: job.tool, status: job.status, session_id, duration_ms });
+    this.audit.record({
+      time: new Date().toISOString(),
+      tool: job.tool,
+      outcome: failed ? "error" : "ok",
+      error_category: job.error?.category,
+      client_id: job.client_id,
+      tenant: this.tenant ?? null,
+      session_id,
+      request_id: extra.requestId,
+      job_id: job.id,
+      duration_ms,
+      arguments: summarizeArguments(args),
+      targets: failed ? [] : auditTargets(job.result),
+    });
+  }
+
+  private handleGetJob(args: JobArgs = {}, auth: AuthInfo | undefined) {
+    try {
+      const job = this.requireJob(args.job_id, auth);
+      return { content: [{ type: "text", text: describeJob(job) }], structuredContent: { job } };
+    } catch (err) {
+      return toolErrorResult("Reading the job failed", err);
+    }
+  }
+
+  private handleCancelJob(args: JobArgs = {}, auth: AuthInfo | undefined) {
+    try {
+      const job = this.requireJob(args.job_id, auth);
+      if (isFinished(job)) {
+        throw new ToolError("conflict", `Job ${job.id} has already finished (${job.status}).`, { field: "job_id" });
+      }
+      const cancelled = jobStore(this.storage).cancel(job.id)!;
+      return {
+        content: [{ type: "text", text: `🛑 Cancelled job ${job.id}.` }],
+        structuredContent: { job: cancelled },
+      };
+    } catch (err) {
+      return toolErrorResult("Cancelling the job failed", err);
+    }
+  }
+
+  /** Another client's job reads as not found, so job ids do not leak. */
+  private requireJob(id: unknown, auth: AuthInfo | undefined): Job {
+    if (typeof id !== "string" || !id) throw invalidInput("`job_id` is required.", "job_id");
+    const job = this.visibleJob(id, auth);
+    if (!job) throw new ToolError("not_found", `No such job: ${id}. Finished jobs are kept for an hour.`, { field: "job_id" });
+    return job;
+  }
+
+  /**
+   * Signed direct uploads (see direct-upload.ts): the preset is applied to
+   * the signed parameters, and its size limit is kept on the grant for
+   * `complete_direct_upload` to check. Without a public_id the server picks
+   * one, so every signature is good for exactly one asset.
+   */
+  private handleSignUpload(args: SignUploadArgs = {}, auth: AuthInfo | undefined) {
+    try {
+      this.uploadPolicy.require("direct");
+      const resourceType = args.resource_type ?? "auto";
+      if (!["image", "video", "raw", "auto"].includes(resourceType)) {
+        throw invalidInput("resource_type must be one of image, video, raw, auto", "resource_type");
+      }
+      const preset = this.presets.resolve(args.upload_preset);
+      const named = this.presets.apply(preset, {
+        resource_type: resourceType,
+        public_id: args.public_id,
+        folder: args.folder,
+        tags: args.tags,
+      });
+      // A fixed public_id overrides the preset's use_filename naming
+      const options = named.public_id
+        ? named
+        : { ...named, public_id: randomPublicId(), use_filename: undefined, unique_filename: undefined };
+      const signed = this.storage.signUpload(options, this.directUploadTtl);
+      const grant = directUploadGrants(this.storage).issue({
+        client_id: auth?.clientId ?? null,
+        resource_type: options.resource_type,
+        public_id: options.public_id,
+        folder: options.folder,
+        preset: preset?.name,
+        max_bytes: preset?.preset.max_bytes,
+        expires_at: signed.expires_at,
+      });
+
+      const direct_upload = {
+        upload_id: grant.id,
+        url: signed.url,
+        fields: signed.fields,
+        expires_at: signed.expires_at,
+        public_id: grant.public_id,
+        resource_type: grant.resource_type,
+        folder: grant.folder ?? null,
+        max_bytes: grant.max_bytes ?? null,
+        allowed_formats: options.allowed_formats ?? [],
+      };
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              `✍️ Signed a direct upload${grant.folder ? ` to ${grant.folder}` : ""}, valid until ${signed.expires_at}. ` +
+              `Drop files in the upload UI; each one is reported with complete_direct_upload (upload_id ${grant.id}).`,
+          },
+        ],
+        structuredContent: { direct_upload },
+        _meta: { ui: { resourceUri: DIRECT_UPLOAD_UI_URI } },
+      };
+    } catch (err) {
+      return toolErrorResult("Signing the upload failed", err);
+    }
+  }
+
+  /**
+   * The browser says what it uploaded, so the stored asset is checked against
+   * the grant: same client, the signed public ID, stored after signing and
+   * within the preset's size limit. An oversized asset is deleted again.
+   */
+  private async handleCompleteDirectUpload(args: CompleteDirectUploadArgs = {}, auth: AuthInfo | undefined) {
+    try {
+      if (typeof args.upload_id !== "string" || !args.upload_id) {
+        throw invalidInput("`upload_id` is required.", "upload_id");
+      }
+      if (typeof args.public_id !== "string" || !args.public_id) {
+        throw invalidInput("`public_id` is required.", "public_id");
+      }
+      // Another client's grant reads as not found, like jobs
+      const grant = directUploadGrants(this.storage).get(args.upload_id);
+      if (!grant || grant.client_id !== (auth?.clientId ?? null)) {
+        throw new ToolError("not_found", `No such direct upload: ${args.upload_id}. Uploads must be reported within an hour of the signature expiring.`, {
+          field: "upload_id",
+        });
+      }
+      const resourceType = args.resource_type ?? (grant.resource_type === "auto" ? "image" : grant.resource_type);
+      if (grant.resource_type !== "auto" && resourceType !== grant.resource_type) {
+        throw invalidInput(`This upload was signed for resource_type "${grant.resource_type}".`, "resource_type");
+      }
+
+      // Fixed folders prefix the signed public ID with the folder; dynamic folders keep it as signed
+      const signedIds = [grant.public_id, ...(grant.folder ? [`${grant.folder}/${grant.public_id}`] : [])];
+      if (!signedIds.includes(args.public_id)) {
+        throw new ToolError("forbidden", `${args.public_id} is not the asset this upload was signed for.`, {
+          field: "public_id",
+        });
+      }
+      const result = await this.storage.getResource(args.public_id, resourceType as ResourceType);
+      const storedAt = typeof result.version === "number" ? result.version * 1000 : Date.parse(result.created_at);
+      if (storedAt < Date.parse(grant.issued_at) - CLOCK_SKEW_MS) {
+        throw new ToolError("forbidden", `${result.public_id} was stored before this upload was signed.`, {
+          field: "public_id",
+        });
+      }
+      if (grant.max_bytes !== undefined && result.bytes > grant.max_bytes) {
+        const stored = result.resource_type as ResourceType;
+        const { deleted } = await this.storage.destroy({ resource_type: stored, public_ids: [result.public_id] });
+        this.announce(...deleted.map((public_id) => ({ resource_type: stored, public_id, deleted: true })));
+        throw invalidInput(
+          `Upload preset "${grant.preset}" limits size to ${grant.max_bytes} bytes; file is ${result.bytes} bytes. The upload was deleted.`,
+          "public_id"
+        );
+      }
 
-      return await new Promise<UploadApiResponse>((resolve, reject) => {
-        cloudinary.uploader
-          .upload_stream(options, (err: any, r: any) => (err ? reject(err) : resolve(r)))
-          .end(buffer);
+      this.announce({
+        resource_type: result.resource_type,
+        public_id: result.public_id,
+        folder: result.asset_folder ?? result.folder,
       });
+      const response = summarizeAsset(result);
+      return {
+        content: [{ type: "text", text: `🎉 Direct upload complete!\n\n${JSON.stringify(response, null, 2)}` }],
+        structuredContent: {
+          upload: response,
+          deduplicated: false,
+          transformations: this.transformationExamples(response),
+          video: this.videoExamples({ ...response, duration: result.duration }),
+          prompts: this.chatPrompts(response),
+        },
+        _meta: { ui: { resourceUri: UPLOAD_UI_URI } },
+      };
+    } catch (err) {
+      return toolErrorResult("Completing the direct upload failed", err);
+    }
+  }
+
+  /** The upload already succeeded, so an analysis failure only marks every feature unavailable. */
+  private async analyzeAfterUpload(
+    asset: ReturnType<typeof summarizeAsset>,
+    request: AnalysisRequest
+  ): Promise<AssetAnalysis> {
+    try {
+      const analysis = await this.storage.analyze(asset.public_id, asset.resource_type, request);
+      if (appliedTags(analysis, request.auto_tag_threshold).length) {
+        this.announce({ resource_type: asset.resource_type, public_id: asset.public_id });
+      }
+      return analysis;
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      return {
+        public_id: asset.public_id,
+        resource_type: asset.resource_type,
+        unavailable: request.features.map((feature) => ({ feature, reason })),
+      };
+    }
+  }
+
+  private async handleUploadBatch(args: UploadBatchArgs = {}, onProgress?: ProgressFn) {
+    let items: UploadArgs[];
+    try {
+      if (Boolean(args.items?.length) === Boolean(args.directory)) {
+        throw invalidInput("Provide exactly one of `items` or `directory`.", "items");
+      }
+      if (args.dedupe !== undefined && !DEDUPE_MODES.includes(args.dedupe)) {
+        throw invalidInput(`dedupe must be one of ${DEDUPE_MODES.join(", ")}`, "dedupe");
+      }
+      // Fail fast on an unknown or missing preset instead of once per item
+      this.presets.resolve(args.upload_preset);
+      items = args.directory
+        ? (await findFiles(await this.uploadPolicy.checkPath(args.directory), args.glob || "*")).map((file_path) => ({
+            file_path,
+          }))
+        : args.items!;
+      if (!items.length) throw invalidInput("no files matched.", args.directory ? "glob" : "items");
+      if (items.length > MAX_BATCH_ITEMS) {
+        throw invalidInput(`${items.length} items exceeds the limit of ${MAX_BATCH_ITEMS}.`, "items");
+      }
+    } catch (err) {
+      return toolErrorResult("Batch upload failed", err);
     }
 
-    // local path upload
-    const buffer = await readFile(input);
-    return await new Promise<UploadApiResponse>((resolve, reject) => {
-      cloudinary.uploader
-        .upload_stream(options, (err: any, r: any) => (err ? reject(err) : resolve(r)))
-        .end(buffer);
+    const concurrency = Math.min(Math.max(Math.floor(args.concurrency ?? 3), 1), MAX_BATCH_CONCURRENCY);
+    // Batch progress counts finished items rather than bytes
+    let done = 0;
+    onProgress?.(0, items.length, "Batch upload started");
+    const settled = await mapWithConcurrency(items, concurrency, async (item) => {
+      try {
+        return await this.performUpload({
+          ...item,
+          resource_type: args.resource_type,
+          overwrite: args.overwrite,
+          tags: [...(args.tags ?? []), ...(item.tags ?? [])],
+          upload_preset: args.upload_preset,
+          dedupe: args.dedupe,
+        });
+      } finally {
+        onProgress?.(++done, items.length, `${done} of ${items.length} items finished`);
+      }
+    });
+
+    const results = settled.map((r, index) => {
+      const raw = items[index].file_path ?? items[index].file ?? "";
+      // Keep data URIs out of the summary
+      const input = /^data:/i.test(raw) ? `${raw.slice(0, 32)}…` : raw;
+      return r.status === "fulfilled"
+        ? {
+            index,
+            input,
+            status: "success" as const,
+            upload: summarizeAsset(r.value.result),
+            deduplicated: r.value.deduplicated,
+          }
+        : {
+            index,
+            input,
+            status: "error" as const,
+            error: r.reason instanceof Error ? r.reason.message : String(r.reason?.message ?? r.reason),
+          };
     });
+
+    const succeeded = results.filter((r) => r.status === "success").length;
+    const deduplicated = results.filter((r) => "deduplicated" in r && r.deduplicated).length;
+    const batch = {
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+      deduplicated,
+      items: results,
+    };
+
+    const failures = results
+      .filter((r) => r.status === "error")
+      .map((r) => `- ${r.input}: ${"error" in r ? r.error : ""}`)
+      .join("\n");
+
+    return {
+      content: [
+        {
+          type: "text",
+          text:
+            `📦 Batch upload: ${succeeded}/${results.length} succeeded.` +
+            (deduplicated ? ` ${deduplicated} were already uploaded and were not uploaded again.` : "") +
+            (failures ? `\n\nFailed:\n${failures}` : "") +
+            `\n\n${JSON.stringify(
+              results.filter((r) => r.status === "success").map((r) => "upload" in r && r.upload),
+              null,
+              2
+            )}`,
+        },
+      ],
+      structuredContent: { batch },
+      _meta: { ui: { resourceUri: GALLERY_UI_URI } },
+    };
   }
 
-  private async handleUpload(args: {
-    file_path?: string;
-    file?: string;
-    resource_type?: "image" | "video" | "raw";
-    public_id?: string;
-    overwrite?: boolean;
-    tags?: string[];
-  }) {
+  // ---------------- Search logic ----------------
+
+  private async handleSearchAssets(args: SearchAssetsArgs = {}) {
     try {
-      const result = await this.performUpload(args);
+      const maxResults = Math.min(Math.max(Math.floor(args.max_results ?? 30), 1), 500);
+      const result = await this.storage.search({ ...args, max_results: maxResults });
 
       const response = {
-        public_id: result.public_id,
-        format: result.format,
-        resource_type: result.resource_type,
-        created_at: result.created_at,
-        bytes: result.bytes,
-        url: result.url,
-        secure_url: result.secure_url,
-        tags: result.tags || [],
+        expression: result.expression,
+        total_count: result.total_count,
+        next_cursor: result.next_cursor,
+        assets: result.resources.map(summarizeSearchHit),
       };
 
+      const summary = response.assets.length
+        ? response.assets
+            .map((a: { public_id: string; format: string }) => `- ${a.public_id} (${a.format})`)
+            .join("\n")
+        : "No assets matched.";
+
       return {
         content: [
           {
             type: "text",
-            text: `🎉 Upload successful!\n\n${JSON.stringify(response, null, 2)}`,
+            text:
+              `🔎 Found ${response.total_count} asset(s), showing ${response.assets.length}.\n\n${summary}` +
+              (response.next_cursor ? `\n\nMore results: pass next_cursor "${response.next_cursor}".` : ""),
           },
         ],
+        structuredContent: { search: response },
+        _meta: { ui: { resourceUri: GALLERY_UI_URI } },
+      };
+    } catch (err) {
+      return toolErrorResult("Search failed", err);
+    }
+  }
 
-        // ✅ This is what the UI hydrates from (portable)
-        structuredContent: { upload: response },
+  // ---------------- Library browser ----------------
 
-        // ✅ Always open the SAME deterministic UI resource
-        _meta: { ui: { resourceUri: UPLOAD_UI_URI } },
+  private async handleBrowseLibrary(args: BrowseLibraryArgs = {}) {
+    try {
+      const folder = (args.folder ?? "").replace(/^\/+|\/+$/g, "");
+      const tags = (args.tags ?? []).filter(Boolean);
+      const maxResults = Math.min(Math.max(Math.floor(args.max_results ?? 24), 1), 100);
+
+      const [result, folders] = await Promise.all([
+        this.storage.search({
+          folder: folder || undefined,
+          tags,
+          resource_type: args.resource_type,
+          max_results: maxResults,
+          next_cursor: args.next_cursor,
+          sort_by: "created_at",
+          sort_direction: "desc",
+        }),
+        // Later pages reuse the folder list the UI already has; a missing folder just has no subfolders
+        args.next_cursor ? Promise.resolve(undefined) : this.storage.listFolders(folder).catch(() => []),
+      ]);
+
+      const library = {
+        folder,
+        tags,
+        resource_type: args.resource_type ?? null,
+        folders,
+        total_count: result.total_count,
+        next_cursor: result.next_cursor,
+        page_size: maxResults,
+        assets: result.resources.map(summarizeSearchHit),
+        transform_presets: TRANSFORM_PRESETS,
+      };
+
+      const where = [folder ? `folder "${folder}"` : "all folders", ...tags.map((t) => `tag "${t}"`)].join(", ");
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              `🗂️ Library (${where}): showing ${library.assets.length} of ${library.total_count} asset(s).` +
+              (folders?.length ? `\nSubfolders: ${folders.join(", ")}` : "") +
+              (library.next_cursor ? `\nMore results: pass next_cursor "${library.next_cursor}".` : ""),
+          },
+        ],
+        structuredContent: { library },
+        _meta: { ui: { resourceUri: LIBRARY_UI_URI } },
       };
     } catch (err) {
-      throw new McpError(
-        ErrorCode.InternalError,
-        `Upload failed: ${err instanceof Error ? err.message : String(err)}`
-      );
+      return toolErrorResult("Browsing the library failed", err);
     }
   }
 
-  // ---------------- Deterministic MCP Apps UI ----------------
+  // ---------------- Asset management ----------------
 
   /**
-   * This UI is deterministic. It does NOT bake result.* into the HTML.
-   * It hydrates from MCP Apps notifications (tool-result) and/or host context.
+   * Example transformations for the upload UI, built by the `transform` tool logic.
    */
-  private createDeterministicUploadUI(): string {
-    // Note: We keep your original CSS so it can match Goose visually.
-    // The only change is: render uses data received from tool-result (structuredContent.upload).
-    return `<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Cloudinary Upload Result</title>
-  <style>
-    body { font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; margin: 0; padding: 20px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); overflow-x: hidden; }
-    .container { max-width: 800px; margin: 0 auto; background: white; border-radius: 15px; box-shadow: 0 20px 40px rgba(0,0,0,0.1); overflow: hidden; }
-    .header { background: linear-gradient(135deg, #4CAF50, #45a049); color: white; padding: 30px; text-align: center; }
-    .header h1 { margin: 0; font-size: 2em; font-weight: 300; }
-    .header .success-icon { font-size: 3em; margin-bottom: 10px; }
-    .content { padding: 30px; }
-    .preview-section { text-align: center; margin-bottom: 30px; }
-    .preview-section img, .preview-section video { max-width: 100%; max-height: 300px; border-radius: 10px; box-shadow: 0 10px 30px rgba(0,0,0,0.2); }
-    .info-grid { display: grid; grid-template-columns: repeat(auto-fit, minmax(250px, 1fr)); gap: 20px; margin-bottom: 30px; }
-    .info-card { background: #f8f9fa; padding: 20px; border-radius: 10px; border-left: 4px solid #4CAF50; }
-    .info-card h3 { margin: 0 0 10px 0; color: #333; font-size: 1.1em; }
-    .info-card p { margin: 5px 0; color: #666; }
-    .info-card .value { font-weight: bold; color: #333; word-break: break-all; }
-    .actions { display: flex; gap: 15px; flex-wrap: wrap; justify-content: center; }
-    .btn { padding: 12px 24px; border: none; border-radius: 25px; cursor: pointer; font-size: 14px; font-weight: 500; text-decoration: none; display: inline-flex; align-items: center; gap: 8px; transition: all 0.3s ease; }
-    .btn-primary { background: linear-gradient(135deg, #007bff, #0056b3); color: white; }
-    .btn-secondary { background: linear-gradient(135deg, #6c757d, #545b62); color: white; }
-    .btn-success { background: linear-gradient(135deg, #28a745, #1e7e34); color: white; }
-    .btn:hover { transform: translateY(-2px); box-shadow: 0 5px 15px rgba(0,0,0,0.2); }
-    .copy-btn { background: #17a2b8; color: white; border: none; padding: 5px 10px; border-radius: 15px; cursor: pointer; font-size: 12px; margin-top: 5px; }
-    .copy-btn:hover { background: #138496; }
-    .transformations { margin-top: 30px; padding: 20px; background: #f8f9fa; border-radius: 10px; }
-    .transformations h3 { margin-top: 0; color: #333; }
-    .transform-examples { display: grid; grid-template-columns: repeat(auto-fit, minmax(200px, 1fr)); gap: 15px; margin-top: 15px; }
-    .transform-example { text-align: center; padding: 15px; background: white; border-radius: 8px; box-shadow: 0 2px 10px rgba(0,0,0,0.1); }
-    .transform-example img { max-width: 100%; height: 100px; object-fit: cover; border-radius: 5px; margin-bottom: 10px; }
-    .tags { display: flex; flex-wrap: wrap; gap: 8px; margin-top: 10px; }
-    .tag { background: #e9ecef; color: #495057; padding: 4px 12px; border-radius: 15px; font-size: 12px; }
-    .muted { color: #666; }
-  </style>
-</head>
-<body>
-  <div class="container">
-    <div class="header">
-      <div class="success-icon">✅</div>
-      <h1>Upload Successful!</h1>
-      <p id="subtitle" class="muted" style="color:rgba(255,255,255,0.9)">Waiting for upload data…</p>
-    </div>
-
-    <div class="content">
-      <div id="previewRoot" class="preview-section" style="display:none;">
-        <h2>Preview</h2>
-        <div id="preview"></div>
-      </div>
-
-      <div class="info-grid">
-        <div class="info-card">
-          <h3>File Information</h3>
-          <p>Public ID: <span class="value" id="publicId">—</span></p>
-          <p>Format: <span class="value" id="format">—</span></p>
-          <p>Type: <span class="value" id="type">—</span></p>
-          <p>Size: <span class="value" id="size">—</span></p>
-        </div>
-
-        <div class="info-card">
-          <h3>Upload Details</h3>
-          <p>Created: <span class="value" id="created">—</span></p>
-          <p>URL: <span class="value" id="url">—</span></p>
-          <div id="tagsRoot" style="display:none;">
-            <p>Tags:</p>
-            <div class="tags" id="tags"></div>
-          </div>
-        </div>
-      </div>
-
-      <div class="actions">
-        <button class="btn btn-primary" id="memeBtn">🎭 Make a Meme</button>
-        <a href="#" id="downloadLink" class="btn btn-secondary" style="pointer-events:none;opacity:.6">⬇️ Download</a>
-        <button class="btn btn-success" id="tweetBtn">📱 Tweet This</button>
-      </div>
-
-      <div class="transformations" id="transformRoot" style="display:none;">
-        <h3>🎨 Transformation Examples</h3>
-        <p>Cloudinary provides powerful on-the-fly transformations. Here are some examples:</p>
-        <div class="transform-examples" id="transformExamples"></div>
-      </div>
-    </div>
-  </div>
-
-  <script>
-    // ----- MCP Apps JSON-RPC Client -----
-    class McpAppClient {
-      constructor() {
-        this.pending = new Map();
-        this.id = 0;
-        this.latestUpload = null;
-        window.addEventListener("message", (e) => this.onMessage(e));
-      }
-
-      onMessage(event) {
-        const data = event.data;
-        if (!data || typeof data !== "object") return;
-
-        // responses
-        if ("id" in data && this.pending.has(data.id)) {
-          const { resolve, reject } = this.pending.get(data.id);
-          this.pending.delete(data.id);
-          if (data.error) reject(new Error(data.error.message));
-          else resolve(data.result);
-          return;
-        }
+  private transformationExamples(asset: { public_id?: string; resource_type?: string } | null) {
+    if (!asset?.public_id || asset.resource_type !== "image") return [];
+    return TRANSFORM_PRESETS.map(({ label, steps }) => {
+      const { url, transformation } = buildTransformation({ public_id: asset.public_id!, steps }, this.storage);
+      return { label, url, transformation };
+    });
+  }
 
-        // MCP Apps standard: tool result notification
-        if (data.method === "ui/notifications/tool-result") {
-        // In ChatGPT quickstart, params IS the tool result
-            const p = data.params;
-
-            const upload =
-                p?.structuredContent?.upload ||                 // ✅ most common
-                p?.result?.structuredContent?.upload ||         // some hosts wrap
-                p?.toolResult?.structuredContent?.upload ||     // some hosts wrap
-                p?.tool_result?.structuredContent?.upload;
-
-            if (upload) {
-                this.latestUpload = upload;
-                render(upload);
-                this.reportSize();
-            } else {
-                console.log("tool-result received but no upload found. Full params:", p);
-            }
-        }
+  /**
+   * Chat messages for the upload UI's buttons, rendered from the prompt definitions.
+   */
+  private chatPrompts(asset: { secure_url?: string; url?: string } | null) {
+    const url = asset?.secure_url || asset?.url;
+    if (!url) return {};
+    return {
+      meme_caption: renderPrompt("meme_caption", { url }),
+      tweet_upload: renderPrompt("tweet_upload", { url }),
+    };
+  }
 
+  /**
+   * Wrap a management result in the same shape `handleUpload` returns, plus an
+   * `operation` block so the upload UI can label what happened.
+   */
+  private assetResult(
+    text: string,
+    asset: ReturnType<typeof summarizeAsset> | null,
+    operation: { action: string; dry_run?: boolean; public_ids: string[]; [k: string]: unknown },
+    analysis?: AssetAnalysis
+  ) {
+    return {
+      content: [{ type: "text", text: `${text}\n\n${JSON.stringify({ operation, asset }, null, 2)}` }],
+      structuredContent: {
+        upload: asset,
+        operation,
+        analysis,
+        transformations: operation.action === "delete" ? [] : this.transformationExamples(asset),
+        video: operation.action === "delete" ? null : this.videoExamples(asset),
+        prompts: operation.action === "delete" ? {} : this.chatPrompts(asset),
+      },
+      _meta: { ui: { resourceUri: UPLOAD_UI_URI } },
+    };
+  }
 
-        // host context changes (theme, etc.)
-        if (data.method === "ui/notifications/host-context-changed") {
-          // Optional: respond to theme changes if you want
-        }
+  private async handleDeleteAssets(args: DeleteAssetsArgs = {}) {
+    try {
+      const resourceType = args.resource_type ?? "image";
+      const hasIds = Array.isArray(args.public_ids) && args.public_ids.length > 0;
+      if (hasIds === Boolean(args.prefix)) {
+        throw invalidInput("Provide exactly one of `public_ids` or `prefix`.", "public_ids");
       }
 
-      request(method, params) {
-        return new Promise((resolve, reject) => {
-          const id = ++this.id;
-          this.pending.set(id, { resolve, reject });
-          window.parent.postMessage({ jsonrpc: "2.0", id, method, params }, "*");
-          setTimeout(() => {
-            if (this.pending.has(id)) {
-              this.pending.delete(id);
-              reject(new Error("Request timed out"));
-            }
-          }, 30000);
-        });
+      // Preview: resolve what would be deleted
+      const query = hasIds
+        ? { resource_type: resourceType, public_ids: requireIds(args.public_ids) }
+        : { resource_type: resourceType, prefix: args.prefix! };
+      const preview = await this.storage.listResources(query);
+
+      const matched: any[] = preview.resources;
+      const matchedIds = matched.map((r) => r.public_id as string);
+      const first = matched[0] ? summarizeAsset(matched[0]) : null;
+
+      if (args.dry_run || args.confirm !== true) {
+        const notFound = hasIds ? args.public_ids!.filter((id) => !matchedIds.includes(id)) : [];
+        return this.assetResult(
+          `🧪 Dry run: ${matchedIds.length}${preview.next_cursor ? "+" : ""} asset(s) would be deleted. ` +
+            "Call again with `confirm: true` to delete.",
+          first,
+          {
+            action: "delete",
+            dry_run: true,
+            public_ids: matchedIds,
+            not_found: notFound,
+            truncated: Boolean(preview.next_cursor),
+          }
+        );
       }
 
-      notify(method, params) {
-        window.parent.postMessage({ jsonrpc: "2.0", method, params }, "*");
-      }
+      const { deleted, partial } = await this.storage.destroy(query);
+      this.announce(...deleted.map((public_id) => ({ resource_type: resourceType, public_id, deleted: true })));
 
-    async init() {
-    const appInfo = { name: "cloudinary-upload", version: "1.0.0" };
-    const appCapabilities = {};
-    const protocolVersion = "2026-01-26";
+      return this.assetResult(
+        `🗑️ Deleted ${deleted.length} asset(s)${partial ? " (partial — call again to continue)" : ""}.`,
+        first,
+        { action: "delete", dry_run: false, public_ids: deleted, partial }
+      );
+    } catch (err) {
+      return toolErrorResult("Delete failed", err);
+    }
+  }
 
-    await this.request("ui/initialize", { appInfo, appCapabilities, protocolVersion });
-    this.notify("ui/notifications/initialized", {}); // ✅ REQUIRED
-    this.reportSize();
+  /** The asset at `publicId`, or undefined if there is none. */
+  private async existingAsset(publicId: string, resourceType: ResourceType) {
+    try {
+      return await this.storage.getResource(publicId, resourceType);
+    } catch (err: any) {
+      if (err?.http_code === 404 || err?.error?.http_code === 404) return undefined;
+      throw err;
     }
+  }
+
+  private async handleRenameAsset(args: RenameAssetArgs) {
+    try {
+      if (!args?.from_public_id || !args?.to_public_id) {
+        throw invalidInput("Both `from_public_id` and `to_public_id` are required.", args?.from_public_id ? "to_public_id" : "from_public_id");
+      }
+      const resourceType = args.resource_type ?? "image";
+
+      // Overwriting destroys the asset at to_public_id, so it is previewed like delete_assets
+      if (args.dry_run || (args.overwrite && args.confirm !== true)) {
+        await this.storage.getResource(args.from_public_id, resourceType);
+        const replaced = await this.existingAsset(args.to_public_id, resourceType);
+        const outcome = !replaced
+          ? "would not replace any asset."
+          : args.overwrite
+            ? `would replace the existing ${args.to_public_id}.`
+            : `would fail: ${args.to_public_id} exists and \`overwrite\` is not set.`;
+        return this.assetResult(
+          `🧪 Dry run: ${args.from_public_id} → ${args.to_public_id} ${outcome}` +
+            (args.overwrite ? " Call again with `confirm: true` to rename." : ""),
+          replaced ? summarizeAsset(replaced) : null,
+          {
+            action: "rename",
+            dry_run: true,
+            public_ids: replaced ? [replaced.public_id] : [],
+            from: args.from_public_id,
+            to: args.to_public_id,
+          }
+        );
+      }
 
+      const result = await this.storage.rename(args.from_public_id, args.to_public_id, {
+        resource_type: resourceType,
+        overwrite: args.overwrite,
+      });
+      this.announce(
+        { resource_type: result.resource_type, public_id: args.from_public_id, deleted: true },
+        { resource_type: result.resource_type, public_id: result.public_id }
+      );
 
+      return this.assetResult(
+        `✏️ Renamed ${args.from_public_id} → ${result.public_id}.`,
+        summarizeAsset(result),
+        { action: "rename", dry_run: false, public_ids: [result.public_id], from: args.from_public_id }
+      );
+    } catch (err) {
+      return toolErrorResult("Rename failed", err);
+    }
+  }
 
-      reportSize() {
-        this.notify("ui/notifications/size-changed", { height: document.body.scrollHeight });
+  private async handleUpdateTags(args: UpdateTagsArgs) {
+    try {
+      const ids = requireIds(args?.public_ids);
+      const add = args.add ?? [];
+      const remove = args.remove ?? [];
+      if (!add.length && !remove.length) {
+        throw invalidInput("Provide at least one tag in `add` or `remove`.", "add");
       }
 
-      async sendChat(text) {
-        return this.request("ui/message", { content: { type: "text", text } });
-      }
+      const resourceType = args.resource_type ?? "image";
+      for (const tag of add) await this.storage.addTag(tag, ids, resourceType);
+      for (const tag of remove) await this.storage.removeTag(tag, ids, resourceType);
+      this.announce(...ids.map((public_id) => ({ resource_type: resourceType, public_id })));
+
+      const asset = summarizeAsset(await this.storage.getResource(ids[0], resourceType));
+      return this.assetResult(`🏷️ Updated tags on ${ids.length} asset(s).`, asset, {
+        action: "update_tags",
+        public_ids: ids,
+        added: add,
+        removed: remove,
+      });
+    } catch (err) {
+      return toolErrorResult("Tag update failed", err);
     }
+  }
+
+  private async handleSetContext(args: SetContextArgs) {
+    try {
+      const ids = requireIds(args?.public_ids);
+      if (!args.context || typeof args.context !== "object" || !Object.keys(args.context).length) {
+        throw invalidInput("`context` must be an object with at least one key.", "context");
+      }
+
+      const resourceType = args.resource_type ?? "image";
+      await this.storage.addContext(args.context, ids, resourceType);
+      this.announce(...ids.map((public_id) => ({ resource_type: resourceType, public_id })));
 
-    function bytesToMb(bytes) {
-      if (typeof bytes !== "number") return "—";
-      return (bytes / 1024 / 1024).toFixed(2) + " MB";
+      const asset = summarizeAsset(await this.storage.getResource(ids[0], resourceType));
+      return this.assetResult(`📝 Updated context on ${ids.length} asset(s).`, asset, {
+        action: "set_context",
+        public_ids: ids,
+        keys: Object.keys(args.context),
+      });
+    } catch (err) {
+      return toolErrorResult("Context update failed", err);
     }
+  }
 
-    function esc(s) {
-      return String(s ?? "").replace(/[&<>"']/g, (c) => ({
-        "&":"&amp;","<":"&lt;",">":"&gt;",'"':"&quot;","'":"&#39;"
-      }[c]));
+  private async handleAnalyzeAsset(args: AnalyzeAssetArgs) {
+    try {
+      if (!args?.public_id) throw new AnalysisOptionsError(["public_id is required"]);
+      const resourceType = args.resource_type ?? "image";
+      const request = resolveAnalysisRequest(args.features, args.auto_tag_threshold);
+
+      const analysis = await this.storage.analyze(args.public_id, resourceType, request);
+      const applied = appliedTags(analysis, request.auto_tag_threshold);
+      if (applied.length) this.announce({ resource_type: resourceType, public_id: args.public_id });
+
+      const asset = summarizeAsset(await this.storage.getResource(args.public_id, resourceType));
+      return this.assetResult(
+        `🤖 Analyzed ${args.public_id}.\n${describeAnalysis(analysis, request.auto_tag_threshold)}`,
+        asset,
+        { action: "analyze", public_ids: [args.public_id], features: request.features, applied_tags: applied },
+        analysis
+      );
+    } catch (err) {
+      return toolErrorResult("Analysis failed", err);
     }
+  }
 
-    function render(u) {
-      document.getElementById("subtitle").textContent =
-        "Your " + (u.resource_type || "asset") + " has been uploaded to Cloudinary";
+  // ---------------- Transformations ----------------
 
-      document.getElementById("publicId").textContent = u.public_id || "—";
-      document.getElementById("format").textContent = u.format || "—";
-      document.getElementById("type").textContent = u.resource_type || "—";
-      document.getElementById("size").textContent = bytesToMb(u.bytes);
-      document.getElementById("created").textContent = u.created_at || "—";
+  private async handleTransform(args: TransformArgs) {
+    try {
+      const result = buildTransformation(args, this.storage);
+      const described = result.steps
+        .map((step) => `${step.index + 1}. ${step.description} → ${step.transformation}`)
+        .join("\n");
 
-      const url = u.secure_url || u.url || "";
-      document.getElementById("url").textContent = url ? url : "—";
+      return {
+        content: [{ type: "text", text: `🎨 Transformation URL:\n${result.url}\n\n${described}` }],
+        structuredContent: { transform: result },
+      };
+    } catch (err) {
+      return toolErrorResult("Transform failed", err);
+    }
+  }
 
-      // Download link
-      const dl = document.getElementById("downloadLink");
-      if (url) {
-        dl.href = url;
-        dl.style.pointerEvents = "auto";
-        dl.style.opacity = "1";
-      } else {
-        dl.href = "#";
-        dl.style.pointerEvents = "none";
-        dl.style.opacity = ".6";
-      }
+  private async handleOpenEditor(args: OpenEditorArgs) {
+    let r: any;
+    try {
+      if (!args?.public_id) throw invalidInput("public_id is required", "public_id");
+      r = await this.storage.getResource(args.public_id, "image");
+    } catch (err) {
+      return toolErrorResult("Opening the editor failed", err);
+    }
 
-      // Preview
-      const isImage = u.resource_type === "image";
-      const isVideo = u.resource_type === "video";
+    const asset = { ...summarizeAsset(r), width: r.width, height: r.height };
+    return {
+      content: [{ type: "text", text: `🎛️ Opening the transformation editor for ${asset.public_id}.` }],
+      structuredContent: {
+        editor: {
+          asset,
+          // Choices for the editor's controls; the server validates them again on every preview
+          options: {
+            crop_modes: CROP_MODES,
+            gravities: GRAVITIES,
+            effects: EFFECTS,
+            qualities: QUALITIES,
+            formats: FETCH_FORMATS,
+          },
+          presets: TRANSFORM_PRESETS,
+        },
+      },
+      _meta: { ui: { resourceUri: EDITOR_UI_URI } },
+    };
+  }
 
-      const previewRoot = document.getElementById("previewRoot");
-      const preview = document.getElementById("preview");
-      if (url && (isImage || isVideo)) {
-        previewRoot.style.display = "block";
-        preview.innerHTML = isImage
-          ? '<img src="' + esc(url) + '" alt="Uploaded image" />'
-          : '<video controls><source src="' + esc(url) + '"></video>';
-      } else {
-        previewRoot.style.display = "none";
-        preview.innerHTML = "";
+  private async handleSaveTransformation(args: SaveTransformationArgs) {
+    try {
+      if (typeof args?.name !== "string" || !NAMED_TRANSFORMATION_RE.test(args.name)) {
+        throw new TransformValidationError(["name must be 1-64 letters, digits, _ or -"]);
       }
+      validateTransformArgs({ public_id: args.public_id || args.name, steps: args.steps });
 
-      // Tags
-      const tags = Array.isArray(u.tags) ? u.tags : [];
-      const tagsRoot = document.getElementById("tagsRoot");
-      const tagsEl = document.getElementById("tags");
-      if (tags.length) {
-        tagsRoot.style.display = "block";
-        tagsEl.innerHTML = tags.map(t => '<span class="tag">' + esc(t) + '</span>').join("");
-      } else {
-        tagsRoot.style.display = "none";
-        tagsEl.innerHTML = "";
-      }
+      const saved = await this.storage.saveNamedTransformation(args.name, compileSteps(args.steps), {
+        overwrite: args.overwrite,
+      });
+      const example = args.public_id
+        ? this.storage.url(args.public_id, { transformation: [{ transformation: args.name }] })
+        : undefined;
 
-      // Transformations (images only)
-      const transformRoot = document.getElementById("transformRoot");
-      const transformExamples = document.getElementById("transformExamples");
-      if (isImage && url) {
-        transformRoot.style.display = "block";
-        const mk = (label, transformedUrl) => {
-          return '<div class="transform-example">' +
-            '<img src="' + esc(transformedUrl) + '" alt="' + esc(label) + '" />' +
-            '<p><strong>' + esc(label) + '</strong></p>' +
-            '<button class="copy-btn" data-copy="' + esc(transformedUrl) + '">Copy URL</button>' +
-          '</div>';
-        };
-        const resized = url.replace("/upload/", "/upload/w_200,h_200,c_fill/");
-        const sepia = url.replace("/upload/", "/upload/e_sepia/");
-        const circle = url.replace("/upload/", "/upload/w_200,h_200,c_fill,r_max/");
-        const blur = url.replace("/upload/", "/upload/e_blur:300/");
-
-        transformExamples.innerHTML =
-          mk("Resized (200x200)", resized) +
-          mk("Sepia Effect", sepia) +
-          mk("Circular Crop", circle) +
-          mk("Blur Effect", blur);
-
-        transformExamples.querySelectorAll("button[data-copy]").forEach((btn) => {
-          btn.addEventListener("click", async () => {
-            const val = btn.getAttribute("data-copy") || "";
-            await navigator.clipboard.writeText(val);
-            alert("Copied!");
-          });
-        });
-      } else {
-        transformRoot.style.display = "none";
-        transformExamples.innerHTML = "";
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              `💾 ${saved.created ? "Saved" : "Updated"} named transformation t_${saved.name} (${saved.transformation}).` +
+              (example ? `\n\nExample: ${example}` : ""),
+          },
+        ],
+        structuredContent: { named_transformation: { ...saved, usage: `t_${saved.name}`, example_url: example } },
+      };
+    } catch (err: any) {
+      if ((err?.http_code ?? err?.error?.http_code) === 409) {
+        err = new ToolError(
+          "conflict",
+          `Transformation "${args.name}" already exists; pass overwrite: true to replace it.`,
+          { field: "name", http_status: 409 }
+        );
       }
+      return toolErrorResult("Saving the transformation failed", err);
     }
+  }
 
-    const mcp = new McpAppClient();
-    mcp.init().catch(console.error);
+  // ---------------- Video ----------------
 
-    document.getElementById("memeBtn").addEventListener("click", async () => {
-      const url = mcp.latestUpload?.secure_url || mcp.latestUpload?.url || "";
-      await mcp.sendChat(
-        "Create a funny meme caption for the image I just uploaded. Link: " + url
-      );
-    });
+  /**
+   * Poster frames and a short trim preview for the upload UI's video branch.
+   */
+  private videoExamples(asset: { public_id?: string; resource_type?: string; duration?: number } | null) {
+    if (!asset?.public_id || asset.resource_type !== "video") return null;
+    const posters = buildPosterFrames(
+      { public_id: asset.public_id, offsets: ["0", "25p", "50p", "75p"], width: 320, height: 180 },
+      this.storage
+    );
+    const clip = typeof asset.duration === "number" ? Math.min(5, asset.duration) : 5;
+    const trim = clip > 0 ? buildTrim({ public_id: asset.public_id, start_offset: 0, end_offset: clip }, this.storage) : null;
+    return { posters, trim };
+  }
 
-    document.getElementById("tweetBtn").addEventListener("click", async () => {
-      const url = mcp.latestUpload?.secure_url || mcp.latestUpload?.url || "";
-      await mcp.sendChat(
-        "Draft a tweet about this Cloudinary upload and include this link: " + url
-      );
-    });
+  private async handleVideoPosterFrames(args: PosterFramesArgs) {
+    try {
+      const frames = buildPosterFrames(args, this.storage);
+      return {
+        content: [
+          { type: "text", text: `🖼️ Poster frames:\n${frames.map((f) => `- ${f.offset}: ${f.url}`).join("\n")}` },
+        ],
+        structuredContent: { video: { public_id: args.public_id, posters: frames } },
+      };
+    } catch (err) {
+      return toolErrorResult("Poster frames failed", err);
+    }
+  }
 
-    // Keep size updated
-    const ro = new ResizeObserver(() => mcp.reportSize());
-    ro.observe(document.documentElement);
-    window.addEventListener("load", () => mcp.reportSize());
-  </script>
-</body>
-</html>`;
-  }
-
-  private createDemoUI(): string {
-    return `<!doctype html>
-<html>
-  <head><meta charset="utf-8" /><meta name="viewport" content="width=device-width, initial-scale=1" /></head>
-  <body style="font-family: system-ui; padding: 16px;">
-    <h2>✅ Cloudinary MCP App Demo</h2>
-    <p class="muted">If you can see this, resources/read is working.</p>
-    <button id="btn" style="padding: 10px 12px; border-radius: 8px; border: 1px solid #ccc; cursor:pointer;">
-      Send message to chat
-    </button>
-
-    <script>
-      class McpAppClient {
-        constructor() {
-          this.pending = new Map();
-          this.id = 0;
-          window.addEventListener("message", (e) => this.onMessage(e));
-        }
-        onMessage(event) {
-          const data = event.data;
-          if (!data || typeof data !== "object") return;
-          if ("id" in data && this.pending.has(data.id)) {
-            const { resolve, reject } = this.pending.get(data.id);
-            this.pending.delete(data.id);
-            if (data.error) reject(new Error(data.error.message));
-            else resolve(data.result);
-            return;
-          }
-        }
-        request(method, params) {
-          return new Promise((resolve, reject) => {
-            const id = ++this.id;
-            this.pending.set(id, { resolve, reject });
-            window.parent.postMessage({ jsonrpc: "2.0", id, method, params }, "*");
-            setTimeout(() => {
-              if (this.pending.has(id)) {
-                this.pending.delete(id);
-                reject(new Error("Request timed out"));
-              }
-            }, 30000);
-          });
-        }
-        notify(method, params) {
-          window.parent.postMessage({ jsonrpc: "2.0", method, params }, "*");
-        }
-        async init() {
-          await this.request("ui/initialize", {});
-          this.notify("ui/notifications/size-changed", { height: document.body.scrollHeight });
-        }
-        async sendChat(text) {
-          return this.request("ui/message", { content: { type: "text", text } });
-        }
-      }
-      const mcp = new McpAppClient();
-      mcp.init().catch(console.error);
-      document.getElementById("btn").addEventListener("click", async () => {
-        await mcp.sendChat("hi from the Cloudinary MCP App demo 👋");
+  private async handleVideoTrim(args: TrimArgs) {
+    try {
+      const trim = buildTrim(args, this.storage);
+      return {
+        content: [{ type: "text", text: `✂️ Trimmed clip (${trim.transformation}):\n${trim.url}` }],
+        structuredContent: { video: { public_id: args.public_id, trim } },
+      };
+    } catch (err) {
+      return toolErrorResult("Trim failed", err);
+    }
+  }
+
+  private async handleVideoStreaming(args: StreamingArgs) {
+    try {
+      const streams = buildStreamingUrls(args, this.storage);
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              `📡 Adaptive streaming (${streams[0].profile}):\n${streams.map((s) => `- ${s.protocol}: ${s.url}`).join("\n")}` +
+              "\n\nManifests are generated on first request; call `video_transcode` with a streaming_profile to prepare them ahead of time.",
+          },
+        ],
+        structuredContent: { video: { public_id: args.public_id, streams } },
+      };
+    } catch (err) {
+      return toolErrorResult("Streaming URL failed", err);
+    }
+  }
+
+  private async handleVideoTranscode(args: TranscodeArgs) {
+    try {
+      const eager = compileTranscodes(args);
+      if (args.notification_url !== undefined) await this.uploadPolicy.checkCallbackUrl(args.notification_url);
+      const result = await this.storage.explicit(args.public_id, {
+        resource_type: "video",
+        eager,
+        eager_async: true,
+        notification_url: args.notification_url,
       });
-    </script>
-  </body>
-</html>`;
+      this.announce({ resource_type: "video", public_id: args.public_id });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              `🎞️ ${result.derived.length} transcode(s) ${result.status === "pending" ? "queued" : "ready"}` +
+              (result.batch_id ? ` (batch ${result.batch_id})` : "") +
+              `:\n${result.derived.map((d) => `- ${d.format}: ${d.url}`).join("\n")}`,
+          },
+        ],
+        structuredContent: { video: { public_id: args.public_id, transcode: result } },
+      };
+    } catch (err) {
+      return toolErrorResult("Transcode failed", err);
+    }
   }
 }
@@ -0,0 +1,117 @@
+import { createHash } from "node:crypto";
+import { createReadStream } from "node:fs";
+import type { UploadApiResponse } from "cloudinary";
+import type { ResourceType, StorageBackend } from "./storage/index.js";
+
+/**
+ * Duplicate detection for uploads. Every hashed upload is tagged with its
+ * SHA-256 (`sha256:<hex>`), so a later upload of the same bytes can find it
+ * by tag. Search indexing lags behind uploads, so each storage also keeps an
+ * in-process index of what was uploaded through it.
+ *
+ * - `reuse`: return the existing asset instead of uploading
+ * - `upload`: upload anyway (the new asset is still tagged)
+ * - `fail`: reject the upload
+ */
+
+export const DEDUPE_MODES = ["reuse", "upload", "fail"] as const;
+export type DedupeMode = (typeof DEDUPE_MODES)[number];
+
+const HASH_TAG_PREFIX = "sha256:";
+
+export class DuplicateUploadError extends Error {
+  constructor(public existing: { public_id: string; resource_type: string }) {
+    super(`Same content already uploaded as ${existing.resource_type}/${existing.public_id}`);
+    this.name = "DuplicateUploadError";
+  }
+}
+
+export function contentTag(hash: string) {
+  return `${HASH_TAG_PREFIX}${hash}`;
+}
+
+export function hashBuffer(buffer: Buffer) {
+  return createHash("sha256").update(buffer).digest("hex");
+}
+
+/** Streams the file, so large files are not loaded into memory. */
+export async function hashFile(filePath: string) {
+  const hash = createHash("sha256");
+  for await (const chunk of createReadStream(filePath)) hash.update(chunk);
+  return hash.digest("hex");
+}
+
+function isNotFound(err: any) {
+  return (err?.http_code ?? err?.error?.http_code) === 404;
+}
+
+/** What an existing asset must match to stand in for an upload. */
+export type DuplicateScope = { resource_type?: ResourceType; folder?: string; tags?: string[] };
+
+function inScope(asset: UploadApiResponse, scope: DuplicateScope) {
+  const folder = asset.asset_folder ?? asset.folder ?? "";
+  if (scope.folder !== undefined && folder !== scope.folder) return false;
+  return (scope.tags ?? []).every((tag) => (asset.tags ?? []).includes(tag));
+}
+
+export class ContentIndex {
+  private known = new Map<string, { public_id: string; resource_type: ResourceType }>();
+  private inflight = new Map<string, Promise<unknown>>();
+
+  constructor(private storage: StorageBackend) {}
+
+  remember(hash: string, asset: UploadApiResponse) {
+    this.known.set(hash, { public_id: asset.public_id, resource_type: asset.resource_type as ResourceType });
+  }
+
+  /**
+   * The existing asset with this content, if any, that also matches `scope`:
+   * the upload's resource type, its folder and every tag it would get.
+   */
+  async find(hash: string, scope: DuplicateScope = {}): Promise<UploadApiResponse | undefined> {
+    const ref = this.known.get(hash);
+    if (ref && (!scope.resource_type || ref.resource_type === scope.resource_type)) {
+      try {
+        const asset = await this.storage.getResource(ref.public_id, ref.resource_type);
+        if (inScope(asset, scope)) return asset;
+      } catch (err) {
+        if (!isNotFound(err)) throw err;
+        this.known.delete(hash);
+      }
+    }
+
+    const { resources } = await this.storage.search({
+      tags: [contentTag(hash), ...(scope.tags ?? [])],
+      resource_type: scope.resource_type,
+      folder: scope.folder,
+      max_results: 1,
+    });
+    if (!resources.length) return undefined;
+    const asset = await this.storage.getResource(resources[0].public_id, resources[0].resource_type as ResourceType);
+    this.remember(hash, asset);
+    return asset;
+  }
+
+  /** Run `fn` after any earlier call for the same hash, so concurrent copies see each other. */
+  async exclusive<T>(hash: string, fn: () => Promise<T>): Promise<T> {
+    const run = (this.inflight.get(hash) ?? Promise.resolve()).catch(() => {}).then(fn);
+    this.inflight.set(hash, run);
+    try {
+      return await run;
+    } finally {
+      if (this.inflight.get(hash) === run) this.inflight.delete(hash);
+    }
+  }
+}
+
+const indexes = new WeakMap<StorageBackend, ContentIndex>();
+
+/** Shared by every session on the same storage, like `assetChanges`. */
+export function contentIndex(storage: StorageBackend) {
+  let index = indexes.get(storage);
+  if (!index) {
+    index = new ContentIndex(storage);
+    indexes.set(storage, index);
+  }
+  return index;
+}
@@ -0,0 +1,76 @@
+import { randomBytes, randomUUID } from "node:crypto";
+import type { StorageBackend } from "./storage/index.js";
+
+/**
+ * Signed direct uploads: `sign_upload` hands a browser (the direct-upload
+ * MCP App) a short-lived signature, the browser posts the file straight to
+ * Cloudinary, and `complete_direct_upload` reports the stored asset back.
+ * The bytes never pass through this server or the model's context.
+ *
+ * Each signature names one asset and comes with a grant recording what it
+ * was scoped to, so a report can be checked against it: same client, the
+ * signed public ID, uploaded after signing and within the preset's size
+ * limit. Grants live in memory per storage backend, like jobs, and are
+ * dropped an hour after they expire.
+ */
+
+/** DIRECT_UPLOAD_TTL_SECONDS default; Cloudinary caps signatures at an hour. */
+export const DEFAULT_DIRECT_UPLOAD_TTL_SECONDS = 600;
+
+/** How long after its signature expires an upload can still be reported. */
+const REPORT_GRACE_MS = 60 * 60 * 1000;
+
+export type DirectUploadGrant = {
+  id: string;
+  client_id: string | null;
+  /** "auto" lets Cloudinary decide per file. */
+  resource_type: string;
+  /** As signed; under fixed folders Cloudinary stores it as `<folder>/<public_id>`. */
+  public_id: string;
+  folder?: string;
+  preset?: string;
+  max_bytes?: number;
+  issued_at: string;
+  expires_at: string;
+};
+
+/**
+ * Public ID for a signature the caller did not name, so a report can only
+ * claim the asset this signature created. Shaped like Cloudinary's own.
+ */
+export function randomPublicId() {
+  return randomBytes(10).toString("hex");
+}
+
+export function directUploadTtlFromEnv(env: NodeJS.ProcessEnv = process.env) {
+  const ttl = Number(env.DIRECT_UPLOAD_TTL_SECONDS);
+  return env.DIRECT_UPLOAD_TTL_SECONDS && Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_DIRECT_UPLOAD_TTL_SECONDS;
+}
+
+export class DirectUploadGrants {
+  private grants = new Map<string, DirectUploadGrant>();
+
+  issue(grant: Omit<DirectUploadGrant, "id" | "issued_at">): DirectUploadGrant {
+    const issued: DirectUploadGrant = { ...grant, id: randomUUID(), issued_at: new Date().toISOString() };
+    this.grants.set(issued.id, issued);
+    const keepMs = Date.parse(issued.expires_at) - Date.now() + REPORT_GRACE_MS;
+    setTimeout(() => this.grants.delete(issued.id), keepMs).unref();
+    return issued;
+  }
+
+  get(id: string): DirectUploadGrant | undefined {
+    return this.grants.get(id);
+  }
+}
+
+const registries = new WeakMap<StorageBackend, DirectUploadGrants>();
+
+/** Shared by every session on the same storage, like `jobStore`. */
+export function directUploadGrants(storage: StorageBackend) {
+  let grants = registries.get(storage);
+  if (!grants) {
+    grants = new DirectUploadGrants();
+    registries.set(storage, grants);
+  }
+  return grants;
+}
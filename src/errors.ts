@@ -0,0 +1,132 @@
+import { AnalysisOptionsError } from "./analysis.js";
+import { DuplicateUploadError } from "./dedupe.js";
+import { PresetPolicyError } from "./presets.js";
+import { StorageError } from "./storage/index.js";
+import { TransformValidationError } from "./transformations.js";
+import { UploadPolicyError } from "./upload-policy.js";
+
+/**
+ * Tool failures are returned as results (`isError: true`) rather than
+ * JSON-RPC errors, with a category the model can act on:
+ *
+ *   structuredContent.error = { category, message, retryable, http_status?, field? }
+ *
+ * `retryable` is true only for failures that may pass unchanged on a later
+ * attempt (rate limits, timeouts, outages). Protocol problems (unknown tool,
+ * tool not allowed) stay JSON-RPC errors.
+ */
+
+export const ERROR_CATEGORIES = [
+  "invalid_input",
+  "not_found",
+  "conflict",
+  "unauthorized",
+  "forbidden",
+  "rate_limited",
+  "timeout",
+  "unavailable",
+  "cancelled",
+  "internal",
+] as const;
+export type ErrorCategory = (typeof ERROR_CATEGORIES)[number];
+
+const RETRYABLE: ErrorCategory[] = ["rate_limited", "timeout", "unavailable"];
+
+export type ToolErrorDetails = {
+  category: ErrorCategory;
+  message: string;
+  retryable: boolean;
+  http_status?: number;
+  /** The argument at fault, when known. */
+  field?: string;
+};
+
+/** Thrown where the category or the offending argument is known. */
+export class ToolError extends Error {
+  constructor(
+    public category: ErrorCategory,
+    message: string,
+    public details: { field?: string; http_status?: number } = {}
+  ) {
+    super(message);
+    this.name = "ToolError";
+  }
+}
+
+export function invalidInput(message: string, field?: string) {
+  return new ToolError("invalid_input", message, { field });
+}
+
+const TIMEOUT_CODES = ["ETIMEDOUT", "ESOCKETTIMEDOUT", "UND_ERR_CONNECT_TIMEOUT", "UND_ERR_HEADERS_TIMEOUT", "UND_ERR_BODY_TIMEOUT"];
+const NETWORK_CODES = ["ECONNRESET", "ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN", "EPIPE", "EHOSTUNREACH", "ENETUNREACH", "UND_ERR_SOCKET"];
+
+function categoryForStatus(status: number): ErrorCategory {
+  if (status === 400 || status === 422) return "invalid_input";
+  if (status === 401) return "unauthorized";
+  if (status === 403) return "forbidden";
+  if (status === 404) return "not_found";
+  if (status === 409) return "conflict";
+  // Cloudinary reports Admin API rate limits as 420, and its SDK reports timeouts as 499
+  if (status === 420 || status === 429) return "rate_limited";
+  if (status === 408 || status === 499 || status === 504) return "timeout";
+  if (status >= 500) return "unavailable";
+  return status >= 400 ? "invalid_input" : "internal";
+}
+
+/** "steps[0].width must be …" -> "steps[0].width" */
+function fieldOfIssues(issues: string[]) {
+  return issues[0]?.match(/^([A-Za-z_][\w.[\]]*) (?:must|is|needs|requires)\b/)?.[1];
+}
+
+/** The Cloudinary SDK rejects with `{ error: { message, http_code } }` rather than an Error. */
+function messageOf(err: any): string {
+  if (err instanceof Error) return err.message;
+  return String(err?.error?.message ?? err?.message ?? err);
+}
+
+export function classifyError(err: unknown): ToolErrorDetails {
+  const e = err as any;
+  const message = messageOf(err);
+  const details = (category: ErrorCategory, extra: { field?: string; http_status?: number } = {}): ToolErrorDetails => ({
+    category,
+    message,
+    retryable: RETRYABLE.includes(category),
+    ...extra,
+  });
+
+  if (err instanceof ToolError) return details(err.category, err.details);
+  if (err instanceof TransformValidationError || err instanceof AnalysisOptionsError) {
+    return details("invalid_input", { field: fieldOfIssues(err.issues) });
+  }
+  if (err instanceof PresetPolicyError) return details("invalid_input", { field: "upload_preset" });
+  if (err instanceof UploadPolicyError) return details(err.category);
+  if (err instanceof DuplicateUploadError) return details("conflict", { http_status: 409 });
+  if (err instanceof StorageError) return details(categoryForStatus(err.http_code), { http_status: err.http_code });
+
+  const status = e?.http_code ?? e?.error?.http_code ?? e?.status;
+  if (typeof status === "number") return details(categoryForStatus(status), { http_status: status });
+
+  const code = e?.code ?? e?.cause?.code;
+  if (e?.name === "TimeoutError" || e?.name === "AbortError" || TIMEOUT_CODES.includes(code)) return details("timeout");
+  if (NETWORK_CODES.includes(code)) return details("unavailable");
+  if (code === "ENOENT") return details("not_found");
+  if (code === "EACCES" || code === "EPERM") return details("forbidden");
+  return details("internal");
+}
+
+/** The tool result for a failure; `failure` prefixes the message, e.g. "Upload failed". */
+export function toolErrorResult(failure: string, err: unknown) {
+  const error = classifyError(err);
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text:
+          `${failure}: ${error.message}` +
+          ` [${error.category}${error.field ? `, field ${error.field}` : ""}${error.retryable ? ", retryable" : ""}]`,
+      },
+    ],
+    structuredContent: { error },
+    isError: true,
+  };
+}
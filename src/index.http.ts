@@ -1,42 +1,179 @@
 #!/usr/bin/env node
+// First, so .env is loaded before any module reads the environment
+import "dotenv/config";
 import express from "express";
 import cors from "cors";
 import { randomUUID } from "crypto";
+import { pipeline, Readable, Transform } from "node:stream";
+import type { ReadableStream as WebReadableStream } from "node:stream/web";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { requireBearerAuth } from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
 import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { AuditLog } from "./audit.js";
+import { ApiKeyVerifier } from "./auth.js";
 import { CloudinaryServer } from "./cloudinary-server.js";
-import "dotenv/config";
+import { logger } from "./logger.js";
+import { activeSessions, circuitOpen, onCollect, renderMetrics } from "./metrics.js";
+import { UploadPresets } from "./presets.js";
+import { LocalBackend, LOCAL_ASSETS_ROUTE, storageKind, UPLOAD_RESOURCE_TYPES } from "./storage/index.js";
+import { Session, SessionLimitError, SessionManager, type SessionReservation } from "./sessions.js";
+import { TENANT_HEADER, TenantAccessError, TenantRegistry } from "./tenants.js";
+import { UploadPolicy } from "./upload-policy.js";
 
 const app = express();
 
-app.use(
-  cors({
-    origin: "*",
-    methods: ["GET", "POST", "DELETE", "OPTIONS"],
-    exposedHeaders: ["Mcp-Session-Id", "Link"],
-    allowedHeaders: ["Content-Type", "mcp-session-id", "Accept", "Authorization"],
-  })
-);
+/** Largest request the local emulator takes as a direct upload; the whole form is buffered. */
+const LOCAL_DIRECT_UPLOAD_MAX_BYTES = 100 * 1024 * 1024;
+
+// CORS_ORIGINS: comma-separated allowlist; unset or "*" allows any origin
+const corsOrigins = (process.env.CORS_ORIGINS || "*")
+  .split(",")
+  .map((o) => o.trim())
+  .filter(Boolean);
+const corsOptions: cors.CorsOptions = {
+  origin: corsOrigins.includes("*") ? "*" : corsOrigins,
+  methods: ["GET", "POST", "DELETE", "OPTIONS"],
+  exposedHeaders: ["Mcp-Session-Id", "Link", "WWW-Authenticate", "X-Request-Id"],
+  allowedHeaders: [
+    "Content-Type",
+    "mcp-session-id",
+    "Accept",
+    "Authorization",
+    "Last-Event-ID",
+    "X-Cloudinary-Tenant",
+    "X-Request-Id",
+  ],
+};
 
-app.options("/mcp", cors());
+app.use(cors(corsOptions));
+
+// One JSON log line per HTTP request, under the caller's X-Request-Id or a new one
+app.use((req, res, next) => {
+  const requestId = req.header("x-request-id") || randomUUID();
+  const started = performance.now();
+  res.setHeader("X-Request-Id", requestId);
+  res.on("finish", () => {
+    logger.info("http request", {
+      request_id: requestId,
+      method: req.method,
+      path: req.path,
+      status: res.statusCode,
+      duration_ms: Math.round(performance.now() - started),
+      session_id: req.header("mcp-session-id") || res.getHeader("mcp-session-id") || null,
+      client_id: req.auth?.clientId ?? null,
+    });
+  });
+  next();
+});
+
+app.options("/mcp", cors(corsOptions));
 
 app.use(express.json({ limit: "25mb" }));
 
+// Each session gets its tenant's storage backend; presets, the upload policy and the audit log are shared
+const tenants = TenantRegistry.fromEnv();
+const presets = UploadPresets.fromEnv();
+const uploadPolicy = UploadPolicy.fromEnv("http");
+const audit = AuditLog.fromEnv();
+
 app.get("/", (_req, res) => {
-  res.json({ name: "cloudinary-mcp-server", status: "running", mcp: "/mcp" });
+  res.json({ name: "cloudinary-mcp-server", status: "running", mcp: "/mcp", storage: storageKind() });
 });
 
+// The local emulator serves its own delivery URLs, under /<tenant> with a tenant registry
+if (storageKind() === "local") {
+  const route = tenants.isMultiTenant ? `${LOCAL_ASSETS_ROUTE}/:tenant` : LOCAL_ASSETS_ROUTE;
+
+  // Signed direct uploads (see sign_upload). The signature is the credential, so any origin may post,
+  // as with Cloudinary's upload API
+  app.post(`${route}/:resource_type/upload`, cors(), async (req, res) => {
+    const tenant = tenants.isMultiTenant ? String((req.params as { tenant?: string }).tenant) : tenants.names()[0];
+    if (!tenants.names().includes(tenant)) return res.status(404).json({ error: { message: "Unknown tenant" } });
+    const resourceType = req.params.resource_type;
+    if (!UPLOAD_RESOURCE_TYPES.includes(resourceType)) {
+      return res.status(400).json({ error: { message: `Invalid resource_type: ${resourceType}` } });
+    }
+    // The form is buffered, so its size must be known up front: no chunked bodies
+    const length = req.header("content-length");
+    if (!length || !/^\d+$/.test(length)) return res.status(411).json({ error: { message: "Content-Length is required" } });
+    if (Number(length) > LOCAL_DIRECT_UPLOAD_MAX_BYTES) {
+      return res.status(413).json({ error: { message: `File size too large (max ${LOCAL_DIRECT_UPLOAD_MAX_BYTES} bytes)` } });
+    }
+    // Counted as it arrives too, in case the body is longer than declared
+    let received = 0;
+    const body = pipeline(
+      req,
+      new Transform({
+        transform(chunk: Buffer, _enc, done) {
+          received += chunk.length;
+          done(received > Number(length) ? new Error("Request body is longer than its Content-Length") : null, chunk);
+        },
+      }),
+      () => {}
+    );
+    try {
+      const form = await new Request("http://local/upload", {
+        method: "POST",
+        headers: { "content-type": req.header("content-type") ?? "" },
+        body: Readable.toWeb(body) as ReadableStream,
+        duplex: "half",
+      } as RequestInit).formData();
+      const file = form.get("file");
+      if (!(file instanceof File)) return res.status(400).json({ error: { message: "Missing required parameter - file" } });
+      const fields: Record<string, string> = {};
+      for (const [key, value] of form) if (key !== "file" && typeof value === "string") fields[key] = value;
+
+      const result = await (tenants.storage(tenant) as LocalBackend).acceptSignedUpload(resourceType, fields, {
+        stream: Readable.fromWeb(file.stream() as WebReadableStream<Uint8Array>),
+        size: file.size,
+        filename: file.name,
+        mimeType: file.type || undefined,
+      });
+      res.json(result);
+    } catch (err) {
+      res.status((err as { http_code?: number }).http_code ?? 400).json({ error: { message: (err as Error).message } });
+    }
+  });
+
+  app.use(route, async (req, res) => {
+    const tenant = tenants.isMultiTenant ? String((req.params as { tenant?: string }).tenant) : tenants.names()[0];
+    if (!tenants.names().includes(tenant)) return res.status(404).send("Asset not found");
+    const file = await (tenants.storage(tenant) as LocalBackend).resolveDeliveryPath(req.path);
+    if (!file) return res.status(404).send("Asset not found");
+    res.sendFile(file);
+  });
+}
+
 // ----------------------------------------------------------------------------
-// Session state (transport + server) keyed by MCP session id
+// Auth: bearer API keys (AUTH_CONFIG_FILE or MCP_API_KEYS). Off when unset.
 // ----------------------------------------------------------------------------
-const transportsBySession = new Map<string, StreamableHTTPServerTransport>();
-const serversBySession = new Map<string, CloudinaryServer>();
+const verifier = ApiKeyVerifier.fromEnv();
+const requireAuth: express.RequestHandler = verifier
+  ? requireBearerAuth({ verifier })
+  : (_req, _res, next) => next();
+
+if (!verifier) {
+  logger.warn("No API keys configured (AUTH_CONFIG_FILE / MCP_API_KEYS): /mcp is open to anyone");
+}
+
+app.use("/mcp", requireAuth);
+
+// ----------------------------------------------------------------------------
+// Session state (transport + server + event store) keyed by MCP session id
+// ----------------------------------------------------------------------------
+const sessions = new SessionManager(SessionManager.limitsFromEnv());
+sessions.start();
 
 function getSessionId(req: express.Request): string | undefined {
   const v = req.headers["mcp-session-id"];
   return typeof v === "string" && v.length ? v : undefined;
 }
 
+// A session may only be used by the client that opened it
+function ownsSession(req: express.Request, session: Session) {
+  return session.server.identity?.clientId === req.auth?.clientId;
+}
+
 // ----------------------------------------------------------------------------
 // POST /mcp
 // - initialize request (no session id): create session + connect server
@@ -47,14 +184,18 @@ app.post("/mcp", async (req, res) => {
 
   // Case A: existing session
   if (sessionIdHeader) {
-    const transport = transportsBySession.get(sessionIdHeader);
-    if (!transport) {
+    const session = sessions.get(sessionIdHeader);
+    if (!session) {
       return res.status(404).json({ error: { message: "Session not found" } });
     }
+    if (!ownsSession(req, session)) {
+      return res.status(403).json({ error: { message: "Session belongs to another client" } });
+    }
+    sessions.track(session.id, res);
     try {
-      await transport.handleRequest(req, res, req.body);
+      await session.transport.handleRequest(req, res, req.body);
     } catch (err) {
-      console.error("Error handling /mcp (existing session):", err);
+      logger.error("Error handling /mcp (existing session)", { err, session_id: session.id });
       if (!res.headersSent) res.status(500).json({ error: "Internal server error" });
     }
     return;
@@ -67,28 +208,40 @@ app.post("/mcp", async (req, res) => {
     });
   }
 
-  // Create new session
-  const server = new CloudinaryServer();
+  // Create new session, bound to one tenant's account for its whole life
+  let tenant: string;
+  let reservation: SessionReservation;
+  try {
+    tenant = tenants.select(req.auth, req.header(TENANT_HEADER));
+    reservation = sessions.admit(req.auth?.clientId);
+  } catch (err) {
+    if (err instanceof SessionLimitError) {
+      res.setHeader("Retry-After", String(err.retry_after));
+      return res.status(err.http_code).json({ error: { message: err.message } });
+    }
+    if (err instanceof TenantAccessError) return res.status(err.http_code).json({ error: { message: err.message } });
+    throw err;
+  }
+  const server = new CloudinaryServer(tenants.storage(tenant), {
+    presets,
+    identity: req.auth,
+    tenant,
+    uploadPolicy,
+    audit,
+  });
+  const eventStore = sessions.createEventStore();
 
   let transport!: StreamableHTTPServerTransport;
 
   transport = new StreamableHTTPServerTransport({
     sessionIdGenerator: () => randomUUID(),
+    eventStore,
     onsessioninitialized: (sid) => {
-      transportsBySession.set(sid, transport);
-      serversBySession.set(sid, server);
-
-      // Cleanup when session closes
-      transport.onclose = async () => {
-        transportsBySession.delete(sid);
-        serversBySession.delete(sid);
-        try {
-          await transport.close();
-        } catch {}
-        try {
-          await server.close();
-        } catch {}
-      };
+      sessions.add({ id: sid, transport, server, eventStore }, reservation);
+      sessions.track(sid, res);
+
+      // Cleanup when session closes (DELETE, idle expiry or transport error)
+      transport.onclose = () => void sessions.close(sid);
     },
   });
 
@@ -96,7 +249,7 @@ app.post("/mcp", async (req, res) => {
     await server.connect(transport);
     await transport.handleRequest(req, res, req.body);
   } catch (err) {
-    console.error("Error handling /mcp (initialize):", err);
+    logger.error("Error handling /mcp (initialize)", { err, client_id: req.auth?.clientId ?? null, tenant });
 
     try {
       await transport.close();
@@ -106,24 +259,30 @@ app.post("/mcp", async (req, res) => {
     } catch {}
 
     if (!res.headersSent) res.status(500).json({ error: "Internal server error" });
+  } finally {
+    // Frees the slot when initialization did not create a session
+    reservation.release();
   }
 });
 
 // ----------------------------------------------------------------------------
-// GET /mcp  -> SSE stream (server-to-client) for an existing session
+// GET /mcp  -> SSE stream (server-to-client) for an existing session;
+//              Last-Event-ID replays what a dropped stream missed
 // DELETE /mcp -> session termination for an existing session
 // ----------------------------------------------------------------------------
 async function handleSessionRequest(req: express.Request, res: express.Response) {
   const sessionId = getSessionId(req);
   if (!sessionId) return res.status(400).send("Missing mcp-session-id");
 
-  const transport = transportsBySession.get(sessionId);
-  if (!transport) return res.status(404).send("Session not found");
+  const session = sessions.get(sessionId);
+  if (!session) return res.status(404).send("Session not found");
+  if (!ownsSession(req, session)) return res.status(403).send("Session belongs to another client");
 
+  sessions.track(sessionId, res);
   try {
-    await transport.handleRequest(req, res);
+    await session.transport.handleRequest(req, res);
   } catch (err) {
-    console.error(`Error handling /mcp (${req.method}) for session ${sessionId}:`, err);
+    logger.error(`Error handling /mcp (${req.method})`, { err, session_id: sessionId });
     if (!res.headersSent) res.status(500).send("Internal server error");
   }
 }
@@ -131,9 +290,65 @@ async function handleSessionRequest(req: express.Request, res: express.Response)
 app.get("/mcp", handleSessionRequest);
 app.delete("/mcp", handleSessionRequest);
 
+// ----------------------------------------------------------------------------
+// GET /sessions -> live sessions. With API keys, needs the "admin" scope
+// (not implied by "*").
+// ----------------------------------------------------------------------------
+app.get(
+  "/sessions",
+  verifier ? requireBearerAuth({ verifier, requiredScopes: ["admin"] }) : (_req, _res, next) => next(),
+  (_req, res) => {
+    res.json(sessions.snapshot());
+  }
+);
+
+// ----------------------------------------------------------------------------
+// GET /health -> overall status for load balancers: "degraded" while any
+// account's circuit breaker is open (see storage/resilience.ts).
+// GET /health/tenants -> per-tenant call state; needs "admin" like /sessions.
+// ----------------------------------------------------------------------------
+app.get("/health", (_req, res) => {
+  const circuits = { closed: 0, open: 0, half_open: 0 };
+  for (const h of Object.values(tenants.health())) circuits[h.circuit]++;
+  res.json({
+    status: circuits.open ? "degraded" : "ok",
+    storage: storageKind(),
+    sessions: sessions.size,
+    circuits,
+  });
+});
+
+app.get(
+  "/health/tenants",
+  verifier ? requireBearerAuth({ verifier, requiredScopes: ["admin"] }) : (_req, _res, next) => next(),
+  (_req, res) => {
+    res.json(tenants.health());
+  }
+);
+
+// ----------------------------------------------------------------------------
+// GET /metrics -> Prometheus text format (see metrics.ts). Needs "admin" like
+// /sessions when API keys are configured.
+// ----------------------------------------------------------------------------
+onCollect(() => {
+  activeSessions.set({}, sessions.size);
+  circuitOpen.reset();
+  for (const [tenant, health] of Object.entries(tenants.health())) {
+    circuitOpen.set({ tenant }, health.circuit === "open" ? 1 : 0);
+  }
+});
+
+app.get(
+  "/metrics",
+  verifier ? requireBearerAuth({ verifier, requiredScopes: ["admin"] }) : (_req, _res, next) => next(),
+  (_req, res) => {
+    res.type("text/plain; version=0.0.4").send(renderMetrics());
+  }
+);
+
 const PORT = Number(process.env.PORT || 3000);
 app.listen(PORT, () => {
-  console.log(`✅ Cloudinary MCP HTTP server running on port ${PORT}`);
+  logger.info("Cloudinary MCP HTTP server running", { port: PORT, storage: storageKind() });
 });
 
 export default app;
@@ -1,15 +1,28 @@
 #!/usr/bin/env node
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { AuditLog } from "./audit.js";
 import { CloudinaryServer } from "./cloudinary-server.js";
+import { logger } from "./logger.js";
+import { UploadPresets } from "./presets.js";
+import { TenantRegistry } from "./tenants.js";
+import { UploadPolicy } from "./upload-policy.js";
 
 async function main() {
-  const server = new CloudinaryServer();
+  // CLOUDINARY_TENANT picks an account from TENANTS_FILE
+  const tenants = TenantRegistry.fromEnv();
+  const tenant = tenants.select(undefined, process.env.CLOUDINARY_TENANT);
+  const server = new CloudinaryServer(tenants.storage(tenant), {
+    presets: UploadPresets.fromEnv(),
+    tenant,
+    uploadPolicy: UploadPolicy.fromEnv("stdio"),
+    audit: AuditLog.fromEnv(),
+  });
   await server.connect(new StdioServerTransport());
-  console.error("Cloudinary MCP server running on stdio");
+  logger.info("Cloudinary MCP server running on stdio", { tenant });
 }
 
 main().catch((error) => {
-  console.error("Server error:", error);
+  logger.error("Server error", { err: error });
   process.exit(1);
 });
 
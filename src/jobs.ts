@@ -0,0 +1,183 @@
+import { randomUUID } from "node:crypto";
+import { EventEmitter } from "node:events";
+import type { ToolErrorDetails } from "./errors.js";
+import type { StorageBackend } from "./storage/index.js";
+
+/**
+ * Background jobs for uploads, which return at once and finish later:
+ *
+ *   cloudinary://job/{id}
+ *
+ * Jobs are kept in memory per storage backend, like the change feed in
+ * resources.ts, so they outlive the HTTP session that started them: any
+ * session of the same tenant in this process can poll, subscribe to or cancel
+ * them. Nothing survives a restart. Finished jobs are dropped after an hour.
+ */
+
+export const JOB_URI_TEMPLATE = "cloudinary://job/{id}";
+
+const JOB_PREFIX = "cloudinary://job/";
+
+export const JOB_STATUSES = ["running", "succeeded", "failed", "cancelled"] as const;
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+const JOB_RETENTION_MS = 60 * 60 * 1000;
+
+export type Job = {
+  id: string;
+  uri: string;
+  tool: string;
+  status: JobStatus;
+  /** The client that started it; only that client (or an admin) can see or cancel it. */
+  client_id: string | null;
+  created_at: string;
+  updated_at: string;
+  progress?: { progress: number; total?: number; message?: string };
+  /** The tool's text result, once finished. */
+  message?: string;
+  /** The tool's structured content, once succeeded. */
+  result?: unknown;
+  error?: ToolErrorDetails;
+};
+
+/** What a job's work resolves to: a tool result, failed when `isError` is set. */
+export type JobOutcome = {
+  content: { type: string; text: string }[];
+  structuredContent?: any;
+  isError?: boolean;
+};
+
+export type JobWork = (
+  signal: AbortSignal,
+  onProgress: (progress: number, total?: number, message?: string) => void
+) => Promise<JobOutcome>;
+
+export function jobUri(id: string) {
+  return `${JOB_PREFIX}${encodeURIComponent(id)}`;
+}
+
+/** The job id of a job URI, undefined for anything else. */
+export function parseJobUri(uri: string): string | undefined {
+  if (!uri.startsWith(JOB_PREFIX)) return undefined;
+  const id = decodeURIComponent(uri.slice(JOB_PREFIX.length));
+  return id && !id.includes("/") ? id : undefined;
+}
+
+export function isFinished(job: Job) {
+  return job.status !== "running";
+}
+
+type JobRecord = { job: Job; controller: AbortController };
+
+export class JobStore extends EventEmitter<{ change: [Job] }> {
+  private jobs = new Map<string, JobRecord>();
+
+  constructor(private retentionMs = JOB_RETENTION_MS) {
+    super();
+    // One listener per live session
+    this.setMaxListeners(0);
+  }
+
+  /** Start `work` in the background and return the running job. */
+  start(tool: string, clientId: string | null, work: JobWork): Job {
+    const now = new Date().toISOString();
+    const id = randomUUID();
+    const record: JobRecord = {
+      job: { id, uri: jobUri(id), tool, status: "running", client_id: clientId, created_at: now, updated_at: now },
+      controller: new AbortController(),
+    };
+    this.jobs.set(id, record);
+
+    // Byte progress is throttled to whole-percent steps, like progress notifications
+    let lastPercent = -1;
+    const onProgress = (progress: number, total?: number, message?: string) => {
+      if (isFinished(record.job)) return;
+      if (total) {
+        const percent = Math.floor((progress / total) * 100);
+        if (percent === lastPercent && progress < total) return;
+        lastPercent = percent;
+      }
+      this.update(record, { progress: { progress, total, message } });
+    };
+
+    work(record.controller.signal, onProgress).then(
+      (outcome) => {
+        const message = outcome.content.map((c) => c.text).join("\n");
+        this.finish(
+          record,
+          outcome.isError
+            ? { status: "failed", message, error: outcome.structuredContent?.error }
+            : { status: "succeeded", message, result: outcome.structuredContent }
+        );
+      },
+      (err) =>
+        this.finish(record, {
+          status: "failed",
+          error: { category: "internal", message: err instanceof Error ? err.message : String(err), retryable: false },
+        })
+    );
+    return { ...record.job };
+  }
+
+  get(id: string): Job | undefined {
+    const record = this.jobs.get(id);
+    return record && { ...record.job };
+  }
+
+  /**
+   * Stop a running job. Its work is aborted, but a step that cannot be
+   * interrupted (a remote URL Cloudinary is already fetching) may still
+   * complete; the job stays cancelled either way.
+   */
+  cancel(id: string): Job | undefined {
+    const record = this.jobs.get(id);
+    if (!record) return undefined;
+    if (!isFinished(record.job)) {
+      this.finish(record, {
+        status: "cancelled",
+        message: "Cancelled.",
+        error: { category: "cancelled", message: "The job was cancelled.", retryable: false },
+      });
+      record.controller.abort();
+    }
+    return { ...record.job };
+  }
+
+  /** Resolves with the job once it has finished. */
+  settled(id: string): Promise<Job | undefined> {
+    const job = this.get(id);
+    if (!job || isFinished(job)) return Promise.resolve(job);
+    return new Promise((resolve) => {
+      const onChange = (changed: Job) => {
+        if (changed.id !== id || !isFinished(changed)) return;
+        this.off("change", onChange);
+        resolve(changed);
+      };
+      this.on("change", onChange);
+    });
+  }
+
+  private update(record: JobRecord, changes: Partial<Job>) {
+    record.job = { ...record.job, ...changes, updated_at: new Date().toISOString() };
+    this.emit("change", { ...record.job });
+  }
+
+  /** First finish wins: work that settles after a cancel is ignored. */
+  private finish(record: JobRecord, changes: Partial<Job>) {
+    if (isFinished(record.job)) return;
+    this.update(record, changes);
+    setTimeout(() => this.jobs.delete(record.job.id), this.retentionMs).unref();
+  }
+}
+
+const stores = new WeakMap<StorageBackend, JobStore>();
+
+/** Shared by every session on the same storage, like `assetChanges`. */
+export function jobStore(storage: StorageBackend) {
+  let store = stores.get(storage);
+  if (!store) {
+    store = new JobStore();
+    stores.set(storage, store);
+  }
+  return store;
+}
@@ -0,0 +1,86 @@
+/**
+ * Structured logs: one JSON object per line on stderr (stdout carries the
+ * stdio transport). Child loggers carry fields such as `session_id` into
+ * every line they write. LOG_LEVEL sets the minimum level (default info).
+ */
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+type Fields = Record<string, unknown>;
+
+function levelFromEnv(env: NodeJS.ProcessEnv = process.env): LogLevel {
+  const level = (env.LOG_LEVEL || "info").toLowerCase();
+  return (LOG_LEVELS as readonly string[]).includes(level) ? (level as LogLevel) : "info";
+}
+
+let envLevel: LogLevel | undefined;
+
+/**
+ * LOG_LEVEL, read on the first log line rather than at import, so a value
+ * loaded from `.env` after this module is evaluated still applies.
+ */
+function defaultLevel() {
+  return (envLevel ??= levelFromEnv());
+}
+
+/**
+ * Errors do not serialize to JSON on their own. Cloudinary SDK rejections are
+ * plain objects that also carry the signed request, so only their message and
+ * status are kept.
+ */
+function serialize(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, code: (value as any).code, stack: value.stack };
+  }
+  const sdkError = (value as any)?.error;
+  if (sdkError && typeof sdkError === "object" && "message" in sdkError) {
+    return { message: String(sdkError.message), http_code: sdkError.http_code };
+  }
+  return value;
+}
+
+export class Logger {
+  constructor(
+    private fields: Fields = {},
+    /** LOG_LEVEL when omitted. */
+    private level?: LogLevel,
+    private write: (line: string) => void = (line) => process.stderr.write(`${line}\n`)
+  ) {}
+
+  child(fields: Fields) {
+    return new Logger({ ...this.fields, ...fields }, this.level, this.write);
+  }
+
+  debug(msg: string, fields?: Fields) {
+    this.log("debug", msg, fields);
+  }
+
+  info(msg: string, fields?: Fields) {
+    this.log("info", msg, fields);
+  }
+
+  warn(msg: string, fields?: Fields) {
+    this.log("warn", msg, fields);
+  }
+
+  error(msg: string, fields?: Fields) {
+    this.log("error", msg, fields);
+  }
+
+  private log(level: LogLevel, msg: string, fields: Fields = {}) {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(this.level ?? defaultLevel())) return;
+    const entry: Fields = { time: new Date().toISOString(), level, msg, ...this.fields };
+    for (const [k, v] of Object.entries(fields)) entry[k] = serialize(v);
+    let line: string;
+    try {
+      line = JSON.stringify(entry);
+    } catch {
+      line = JSON.stringify({ time: entry.time, level, msg, ...this.fields, unserializable: Object.keys(fields) });
+    }
+    this.write(line);
+  }
+}
+
+/** The process logger; modules derive children from it. */
+export const logger = new Logger();
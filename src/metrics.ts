@@ -0,0 +1,147 @@
+/**
+ * Process-wide metrics in the Prometheus text format, served at /metrics by
+ * the HTTP server. Values that are cheaper to read than to track (sessions,
+ * circuit state) are set by a collector just before each scrape.
+ */
+
+type Labels = Record<string, string>;
+
+function labelKey(names: readonly string[], labels: Labels) {
+  return JSON.stringify(names.map((n) => labels[n] ?? ""));
+}
+
+function escapeLabel(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(names: readonly string[], values: string[], extra = "") {
+  const pairs = names.map((n, i) => `${n}="${escapeLabel(values[i])}"`);
+  if (extra) pairs.push(extra);
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+abstract class Metric {
+  abstract readonly type: "counter" | "gauge" | "histogram";
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: readonly string[] = []
+  ) {}
+
+  protected abstract samples(): string[];
+
+  render() {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()].join("\n");
+  }
+}
+
+export class Counter extends Metric {
+  readonly type = "counter";
+  private values = new Map<string, number>();
+
+  inc(labels: Labels = {}, by = 1) {
+    const key = labelKey(this.labelNames, labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + by);
+  }
+
+  protected samples() {
+    return [...this.values].map(([key, v]) => `${this.name}${formatLabels(this.labelNames, JSON.parse(key))} ${v}`);
+  }
+}
+
+export class Gauge extends Metric {
+  readonly type = "gauge";
+  private values = new Map<string, number>();
+
+  set(labels: Labels, value: number) {
+    this.values.set(labelKey(this.labelNames, labels), value);
+  }
+
+  /** Drop every series, before a collector sets the current ones. */
+  reset() {
+    this.values.clear();
+  }
+
+  protected samples() {
+    return [...this.values].map(([key, v]) => `${this.name}${formatLabels(this.labelNames, JSON.parse(key))} ${v}`);
+  }
+}
+
+export class Histogram extends Metric {
+  readonly type = "histogram";
+  private series = new Map<string, { buckets: number[]; sum: number; count: number }>();
+
+  constructor(name: string, help: string, labelNames: readonly string[], readonly buckets: number[]) {
+    super(name, help, labelNames);
+  }
+
+  observe(labels: Labels, value: number) {
+    const key = labelKey(this.labelNames, labels);
+    let s = this.series.get(key);
+    if (!s) {
+      s = { buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, s);
+    }
+    this.buckets.forEach((le, i) => {
+      if (value <= le) s!.buckets[i]++;
+    });
+    s.sum += value;
+    s.count++;
+  }
+
+  protected samples() {
+    const lines: string[] = [];
+    for (const [key, s] of this.series) {
+      const values: string[] = JSON.parse(key);
+      this.buckets.forEach((le, i) => {
+        lines.push(`${this.name}_bucket${formatLabels(this.labelNames, values, `le="${le}"`)} ${s.buckets[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels(this.labelNames, values, 'le="+Inf"')} ${s.count}`);
+      lines.push(`${this.name}_sum${formatLabels(this.labelNames, values)} ${s.sum}`);
+      lines.push(`${this.name}_count${formatLabels(this.labelNames, values)} ${s.count}`);
+    }
+    return lines;
+  }
+}
+
+export const toolCalls = new Counter("mcp_tool_calls_total", "Tool calls by tool and outcome (ok or error).", [
+  "tool",
+  "outcome",
+]);
+
+export const toolErrors = new Counter("mcp_tool_errors_total", "Failed tool calls by tool and error category.", [
+  "tool",
+  "category",
+]);
+
+export const toolDuration = new Histogram(
+  "mcp_tool_call_duration_seconds",
+  "Tool call latency.",
+  ["tool"],
+  [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120]
+);
+
+export const uploadedBytes = new Counter("cloudinary_uploaded_bytes_total", "Bytes of new assets uploaded.", [
+  "tenant",
+]);
+
+export const activeSessions = new Gauge("mcp_active_sessions", "Open MCP sessions (HTTP).");
+
+export const circuitOpen = new Gauge("cloudinary_circuit_open", "1 while a tenant's circuit breaker is open.", [
+  "tenant",
+]);
+
+const registry: Metric[] = [toolCalls, toolErrors, toolDuration, uploadedBytes, activeSessions, circuitOpen];
+const collectors: (() => void)[] = [];
+
+/** Run `collect` before every scrape, to set gauges from live state. */
+export function onCollect(collect: () => void) {
+  collectors.push(collect);
+}
+
+/** The scrape body (text/plain; version=0.0.4). */
+export function renderMetrics() {
+  for (const collect of collectors) collect();
+  return registry.map((m) => m.render()).join("\n\n") + "\n";
+}
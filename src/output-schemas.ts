@@ -0,0 +1,268 @@
+import { ERROR_CATEGORIES } from "./errors.js";
+import { JOB_STATUSES } from "./jobs.js";
+
+/**
+ * `outputSchema` for every tool, describing its `structuredContent`.
+ *
+ * Clients validate structured content against these schemas on failures too,
+ * so each one also allows the `error` block from errors.ts and no top-level
+ * key is required: a result carries either its payload or `error`.
+ */
+
+type JsonSchema = Record<string, unknown>;
+
+const string = { type: "string" };
+const number = { type: "number" };
+const boolean = { type: "boolean" };
+const stringList = { type: "array", items: string };
+const nullable = (schema: JsonSchema) => ({ anyOf: [schema, { type: "null" }] });
+
+const error = {
+  type: "object",
+  description: "Present only on failed calls (isError: true).",
+  properties: {
+    category: { type: "string", enum: [...ERROR_CATEGORIES] },
+    message: string,
+    retryable: { type: "boolean", description: "Whether the same call may succeed later." },
+    http_status: number,
+    field: { type: "string", description: "The argument at fault, when known." },
+  },
+  required: ["category", "message", "retryable"],
+};
+
+function output(properties: Record<string, JsonSchema>) {
+  return { type: "object" as const, properties: { ...properties, error } };
+}
+
+const asset = {
+  type: "object",
+  properties: {
+    public_id: string,
+    format: string,
+    resource_type: string,
+    created_at: string,
+    bytes: number,
+    url: string,
+    secure_url: string,
+    tags: stringList,
+    context: { type: "object", additionalProperties: string },
+  },
+};
+
+const searchHit = {
+  type: "object",
+  properties: {
+    public_id: string,
+    format: string,
+    resource_type: string,
+    folder: string,
+    created_at: string,
+    bytes: number,
+    width: number,
+    height: number,
+    secure_url: string,
+    tags: stringList,
+  },
+};
+
+const analysis = {
+  type: "object",
+  properties: {
+    public_id: string,
+    resource_type: string,
+    tags: {
+      type: "array",
+      items: { type: "object", properties: { tag: string, confidence: number } },
+    },
+    caption: string,
+    ocr_text: string,
+    moderation: { type: "array", items: { type: "object" } },
+    colors: {
+      type: "array",
+      items: { type: "object", properties: { color: string, percent: number } },
+    },
+    faces: { type: "array" },
+    unavailable: {
+      type: "array",
+      items: { type: "object", properties: { feature: string, reason: string } },
+    },
+  },
+};
+
+const transformationExamples = {
+  type: "array",
+  items: { type: "object", properties: { label: string, url: string, transformation: string } },
+};
+
+const prompts = { type: "object", additionalProperties: string };
+
+const video = {
+  type: "object",
+  properties: {
+    public_id: string,
+    posters: { type: "array", items: { type: "object" } },
+    trim: nullable({ type: "object" }),
+    streams: { type: "array", items: { type: "object" } },
+    transcode: { type: "object" },
+  },
+};
+
+const job = {
+  type: "object",
+  properties: {
+    id: string,
+    uri: { ...string, description: "Readable and subscribable job resource." },
+    tool: string,
+    status: { type: "string", enum: [...JOB_STATUSES] },
+    client_id: nullable(string),
+    created_at: string,
+    updated_at: string,
+    progress: { type: "object", properties: { progress: number, total: number, message: string } },
+    message: string,
+    result: { type: "object", description: "The upload's structured content, once succeeded." },
+    error: { ...error, description: "Why the job failed." },
+  },
+  required: ["id", "uri", "status"],
+};
+
+export const UPLOAD_OUTPUT = output({
+  job: { ...job, description: "The upload job; final fields are filled in once it finishes." },
+  upload: asset,
+  deduplicated: { ...boolean, description: "True when an existing asset with the same content was returned." },
+  analysis,
+  transformations: transformationExamples,
+  video: nullable(video),
+  prompts,
+});
+
+export const UPLOAD_BATCH_OUTPUT = output({
+  batch: {
+    type: "object",
+    properties: {
+      total: number,
+      succeeded: number,
+      failed: number,
+      deduplicated: number,
+      items: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            index: number,
+            input: string,
+            status: { type: "string", enum: ["success", "error"] },
+            upload: asset,
+            deduplicated: boolean,
+            error: string,
+          },
+        },
+      },
+    },
+  },
+});
+
+export const SEARCH_OUTPUT = output({
+  search: {
+    type: "object",
+    properties: {
+      expression: string,
+      total_count: number,
+      next_cursor: nullable(string),
+      assets: { type: "array", items: searchHit },
+    },
+  },
+});
+
+export const LIBRARY_OUTPUT = output({
+  library: {
+    type: "object",
+    properties: {
+      folder: string,
+      tags: stringList,
+      resource_type: nullable(string),
+      folders: stringList,
+      total_count: number,
+      next_cursor: nullable(string),
+      page_size: number,
+      assets: { type: "array", items: searchHit },
+      transform_presets: { type: "array", items: { type: "object" } },
+    },
+  },
+});
+
+/** delete_assets, rename_asset, update_tags, set_context and analyze_asset share the upload UI's shape. */
+export const ASSET_OPERATION_OUTPUT = output({
+  upload: nullable(asset),
+  operation: {
+    type: "object",
+    properties: { action: string, dry_run: boolean, public_ids: stringList },
+    required: ["action", "public_ids"],
+  },
+  analysis,
+  transformations: transformationExamples,
+  video: nullable(video),
+  prompts,
+});
+
+export const TRANSFORM_OUTPUT = output({
+  transform: {
+    type: "object",
+    properties: {
+      url: string,
+      transformation: string,
+      steps: {
+        type: "array",
+        items: { type: "object", properties: { index: number, description: string, transformation: string } },
+      },
+    },
+  },
+});
+
+export const VIDEO_OUTPUT = output({ video });
+
+export const EDITOR_OUTPUT = output({
+  editor: {
+    type: "object",
+    properties: {
+      asset: { ...asset, properties: { ...asset.properties, width: number, height: number } },
+      options: { type: "object" },
+      presets: { type: "array", items: { type: "object" } },
+    },
+  },
+});
+
+export const NAMED_TRANSFORMATION_OUTPUT = output({
+  named_transformation: {
+    type: "object",
+    properties: {
+      name: string,
+      transformation: string,
+      created: boolean,
+      usage: string,
+      example_url: string,
+    },
+  },
+});
+
+export const JOB_OUTPUT = output({ job });
+
+export const DIRECT_UPLOAD_OUTPUT = output({
+  direct_upload: {
+    type: "object",
+    properties: {
+      upload_id: { ...string, description: "Pass to complete_direct_upload after the upload." },
+      public_id: { ...string, description: "The one asset this signature can create; sign again for another file." },
+      url: { ...string, description: "POST multipart/form-data here, with the file in `file`." },
+      fields: { type: "object", additionalProperties: string, description: "Form fields to send with the file." },
+      expires_at: string,
+      resource_type: string,
+      folder: nullable(string),
+      max_bytes: nullable(number),
+      allowed_formats: stringList,
+    },
+  },
+});
+
+export const DEMO_OUTPUT = output({
+  demo: { type: "object", properties: { message: string, timestamp: string } },
+});
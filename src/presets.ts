@@ -0,0 +1,260 @@
+import { randomBytes } from "node:crypto";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { DEDUPE_MODES, type DedupeMode } from "./dedupe.js";
+import { compileSteps, TransformStep, TransformValidationError, validateTransformArgs } from "./transformations.js";
+
+/**
+ * Operator-defined upload presets, loaded from a JSON file
+ * (UPLOAD_PRESETS_FILE, default `upload-presets.json` if it exists).
+ *
+ * {
+ *   "default_preset": "products",
+ *   "require_preset": false,
+ *   "presets": {
+ *     "products": {
+ *       "folder": "products",
+ *       "tags": ["product"],
+ *       "resource_type": "image",
+ *       "allowed_formats": ["jpg", "png", "webp"],
+ *       "max_bytes": 10000000,
+ *       "eager": [[{ "width": 400, "height": 400, "crop": "fill" }]],
+ *       "naming": { "prefix": "prod_", "pattern": "^[a-z0-9_-]+$" },
+ *       "dedupe": "reuse"
+ *     }
+ *   }
+ * }
+ */
+
+export type PresetNaming = {
+  /** Prepended to every public ID. */
+  prefix?: string;
+  /** Regex the final public ID (without folder) must match. */
+  pattern?: string;
+  /** Derive the public ID from the file name when none is given. */
+  use_filename?: boolean;
+  /** Append a random suffix to given or file-derived names so they never collide. */
+  unique_suffix?: boolean;
+  lowercase?: boolean;
+};
+
+export type UploadPreset = {
+  description?: string;
+  folder?: string;
+  tags?: string[];
+  resource_type?: "image" | "video" | "raw";
+  allowed_formats?: string[];
+  max_bytes?: number;
+  /** Each entry is a chain of `transform` tool steps generated at upload time. */
+  eager?: TransformStep[][];
+  eager_async?: boolean;
+  moderation?: string;
+  overwrite?: boolean;
+  /** Name of a signed upload preset defined in the Cloudinary console. */
+  cloudinary_preset?: string;
+  naming?: PresetNaming;
+  /** Default `dedupe` mode for uploads with this preset. */
+  dedupe?: DedupeMode;
+};
+
+export type UploadPresetConfig = {
+  default_preset?: string | null;
+  require_preset?: boolean;
+  presets: Record<string, UploadPreset>;
+};
+
+/** What the server knows about an upload before sending any bytes. */
+export type UploadFacts = {
+  /** File name or URL path, used for the extension and `use_filename`. */
+  filename?: string;
+  mimeType?: string;
+  /** Undefined when the size cannot be determined up front. */
+  bytes?: number;
+};
+
+/**
+ * Thrown when a preset is unknown or an upload breaks its policy.
+ */
+export class PresetPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PresetPolicyError";
+  }
+}
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/avif": "avif",
+  "image/svg+xml": "svg",
+  "video/mp4": "mp4",
+  "video/quicktime": "mov",
+  "video/webm": "webm",
+  "application/pdf": "pdf",
+};
+
+function fileFormat(facts: UploadFacts) {
+  const ext = facts.filename ? path.extname(facts.filename).slice(1).toLowerCase() : "";
+  const format = ext || (facts.mimeType ? MIME_EXTENSIONS[facts.mimeType.toLowerCase()] ?? "" : "");
+  return format === "jpeg" ? "jpg" : format;
+}
+
+function validatePreset(name: string, preset: UploadPreset) {
+  const where = `Upload preset "${name}"`;
+  if (!preset || typeof preset !== "object") throw new Error(`${where} must be an object`);
+  if (preset.max_bytes !== undefined && !(preset.max_bytes > 0)) {
+    throw new Error(`${where}: max_bytes must be a positive number`);
+  }
+  if (preset.dedupe !== undefined && !DEDUPE_MODES.includes(preset.dedupe)) {
+    throw new Error(`${where}: dedupe must be one of ${DEDUPE_MODES.join(", ")}`);
+  }
+  if (preset.naming?.pattern) {
+    try {
+      new RegExp(preset.naming.pattern);
+    } catch {
+      throw new Error(`${where}: naming.pattern is not a valid regex`);
+    }
+  }
+  preset.eager?.forEach((steps, i) => {
+    try {
+      validateTransformArgs({ public_id: "preset", steps });
+    } catch (err) {
+      if (err instanceof TransformValidationError) throw new Error(`${where}: eager[${i}]: ${err.message}`);
+      throw err;
+    }
+  });
+}
+
+export class UploadPresets {
+  constructor(private config: UploadPresetConfig = { presets: {} }) {
+    for (const [name, preset] of Object.entries(config.presets)) validatePreset(name, preset);
+    if (config.default_preset && !config.presets[config.default_preset]) {
+      throw new Error(`default_preset "${config.default_preset}" is not defined`);
+    }
+  }
+
+  /**
+   * Load from UPLOAD_PRESETS_FILE, or `upload-presets.json` in the working
+   * directory if present. With neither, no presets are defined.
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): UploadPresets {
+    const file = env.UPLOAD_PRESETS_FILE || "upload-presets.json";
+    let raw: string;
+    try {
+      raw = readFileSync(path.resolve(file), "utf8");
+    } catch (err: any) {
+      if (err?.code === "ENOENT" && !env.UPLOAD_PRESETS_FILE) return new UploadPresets();
+      throw new Error(`Cannot read upload presets file ${file}: ${err?.message ?? err}`);
+    }
+    return new UploadPresets(JSON.parse(raw));
+  }
+
+  names() {
+    return Object.keys(this.config.presets);
+  }
+
+  /** Tool-description friendly list of presets. */
+  describe() {
+    return Object.entries(this.config.presets)
+      .map(([name, p]) => `${name}${p.description ? ` (${p.description})` : ""}`)
+      .join(", ");
+  }
+
+  /**
+   * The preset that applies to an upload, or undefined for none.
+   */
+  resolve(name?: string): { name: string; preset: UploadPreset } | undefined {
+    const chosen = name ?? this.config.default_preset;
+    if (!chosen) {
+      if (this.config.require_preset) {
+        throw new PresetPolicyError(`An upload_preset is required. Available: ${this.names().join(", ")}`);
+      }
+      return undefined;
+    }
+    const preset = this.config.presets[chosen];
+    if (!preset) {
+      throw new PresetPolicyError(`Unknown upload_preset "${chosen}". Available: ${this.names().join(", ") || "none"}`);
+    }
+    return { name: chosen, preset };
+  }
+
+  /**
+   * Enforce the preset's limits and merge its defaults into `options`.
+   * Runs before any bytes are sent, so a rejected upload never reaches storage.
+   *
+   * Without `facts` the options are for a signed direct upload, whose file the
+   * server never sees: formats are left to the signed `allowed_formats`, the
+   * size is checked once the upload is reported, and names derived from the
+   * file name are left to Cloudinary.
+   */
+  apply(
+    resolved: { name: string; preset: UploadPreset } | undefined,
+    options: Record<string, any>,
+    facts?: UploadFacts
+  ): Record<string, any> {
+    if (!resolved) return options;
+    const { name, preset } = resolved;
+    const where = `Upload preset "${name}"`;
+
+    if (preset.resource_type && options.resource_type !== "auto" && options.resource_type !== preset.resource_type) {
+      throw new PresetPolicyError(`${where} only accepts resource_type "${preset.resource_type}"`);
+    }
+
+    const format = facts ? fileFormat(facts) : "";
+    if (facts && preset.allowed_formats?.length) {
+      const allowed = preset.allowed_formats.map((f) => f.toLowerCase());
+      if (!format || !allowed.includes(format)) {
+        throw new PresetPolicyError(
+          `${where} only allows ${allowed.join(", ")}; got ${format || "an unknown format"}`
+        );
+      }
+    }
+
+    if (facts && preset.max_bytes !== undefined) {
+      if (facts.bytes === undefined) {
+        throw new PresetPolicyError(`${where} limits size to ${preset.max_bytes} bytes, but the size could not be determined`);
+      }
+      if (facts.bytes > preset.max_bytes) {
+        throw new PresetPolicyError(`${where} limits size to ${preset.max_bytes} bytes; file is ${facts.bytes} bytes`);
+      }
+    }
+
+    // Without a name or prefix the backend picks a random public ID, which needs no naming checks
+    const naming = preset.naming ?? {};
+    let base: string | undefined = options.public_id;
+    if (!facts && !base && (naming.prefix || naming.pattern)) {
+      throw new PresetPolicyError(`${where} needs a public_id for direct uploads, to apply its naming rules`);
+    }
+    const cloudinaryNaming =
+      !facts && !base && naming.use_filename ? { use_filename: true, unique_filename: naming.unique_suffix ?? false } : {};
+    if (!base && naming.use_filename && facts?.filename) {
+      base = path.basename(facts.filename, path.extname(facts.filename)).replace(/[^\w-]+/g, "_");
+    }
+    let publicId: string | undefined;
+    if (base || naming.prefix) {
+      publicId = `${naming.prefix ?? ""}${base ?? randomBytes(6).toString("hex")}`;
+      if (naming.unique_suffix && base) publicId += `_${randomBytes(3).toString("hex")}`;
+      if (naming.lowercase) publicId = publicId.toLowerCase();
+      if (naming.pattern && !new RegExp(naming.pattern).test(publicId)) {
+        throw new PresetPolicyError(`${where}: public_id "${publicId}" does not match ${naming.pattern}`);
+      }
+    }
+
+    return {
+      ...options,
+      resource_type: preset.resource_type ?? options.resource_type,
+      public_id: publicId,
+      folder: [preset.folder, options.folder].filter(Boolean).join("/") || undefined,
+      tags: [...new Set([...(preset.tags ?? []), ...(options.tags ?? [])])],
+      overwrite: preset.overwrite ?? options.overwrite,
+      allowed_formats: preset.allowed_formats,
+      eager: preset.eager?.map((steps) => ({ transformation: compileSteps(steps) })),
+      eager_async: preset.eager_async,
+      moderation: preset.moderation,
+      upload_preset: preset.cloudinary_preset,
+      ...cloudinaryNaming,
+    };
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Parameterized prompts for common media workflows. Each one spells out which
+ * of this server's tools to call, in order. The upload UI's chat buttons use
+ * the same definitions (rendered server-side with the asset's URL).
+ */
+
+export type PromptArgument = {
+  name: string;
+  description: string;
+  required?: boolean;
+};
+
+export type PromptDefinition = {
+  name: string;
+  title: string;
+  description: string;
+  arguments: PromptArgument[];
+  render(args: Record<string, string>): string;
+};
+
+/**
+ * Thrown when a prompt is unknown or a required argument is missing.
+ */
+export class PromptArgumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PromptArgumentError";
+  }
+}
+
+const list = (value: string | undefined, fallback: string) =>
+  (value || fallback)
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean);
+
+/** How to pass `file` to the upload tool: URLs and data URIs go in `file`, paths in `file_path`. */
+const fileArgument = (file: string) => (/^(https?|data):/i.test(file) ? `\`file\` "${file}"` : `\`file_path\` "${file}"`);
+
+export const PROMPTS: PromptDefinition[] = [
+  {
+    name: "product_photo_prep",
+    title: "Product photo prep",
+    description: "Upload a product photo, make a square thumbnail and a web-optimized version, tag it and write alt text.",
+    arguments: [
+      { name: "file", description: "Local path, URL or data URI of the photo", required: true },
+      { name: "product_name", description: "Product name, used for tags and alt text", required: true },
+      { name: "folder", description: "Cloudinary folder (default: products)" },
+      { name: "thumbnail_size", description: "Square thumbnail size in pixels (default: 400)" },
+    ],
+    render: (a) => {
+      const size = Number(a.thumbnail_size) || 400;
+      return [
+        `Prepare a product photo for "${a.product_name}".`,
+        "",
+        `1. Call \`upload\` with ${fileArgument(a.file)}, folder "${a.folder || "products"}", tags ["product"] and wait true.`,
+        `2. Call \`transform\` on the uploaded public_id with one step { width: ${size}, height: ${size}, crop: "fill", gravity: "auto", quality: "auto", fetch_format: "auto" } for the thumbnail.`,
+        '3. Call `transform` again with { width: 1200, crop: "limit", quality: "auto", fetch_format: "auto" } for the product page.',
+        "4. Look at the image and write concise alt text (under 125 characters) that describes the product, not the photo.",
+        '5. Call `set_context` with { alt: <alt text>, caption: <one-line caption> } and `update_tags` to add a tag made from the product name (lowercase, dashes).',
+        "",
+        "Finish with the two URLs, the alt text and the tags.",
+      ].join("\n");
+    },
+  },
+  {
+    name: "social_variant_pack",
+    title: "Social media variant pack",
+    description: "Build correctly cropped variants of one asset for several social platforms.",
+    arguments: [
+      { name: "public_id", description: "Public ID of an uploaded image", required: true },
+      { name: "platforms", description: "Comma-separated: instagram, story, twitter, linkedin, facebook (default: all)" },
+      { name: "caption_topic", description: "What captions should be about" },
+    ],
+    render: (a) => {
+      const sizes: Record<string, string> = {
+        instagram: "1080x1080 (aspect_ratio 1:1)",
+        story: "1080x1920 (aspect_ratio 9:16)",
+        twitter: "1600x900 (aspect_ratio 16:9)",
+        linkedin: "1200x627",
+        facebook: "1200x630",
+      };
+      const platforms = list(a.platforms, Object.keys(sizes).join(","));
+      return [
+        `Create a social media variant pack from the asset "${a.public_id}".`,
+        "",
+        "For each platform below, call `transform` with a single step that sets width and height, " +
+          'crop "fill", gravity "auto", quality "auto" and fetch_format "auto":',
+        ...platforms.map((p) => `- ${p}: ${sizes[p.toLowerCase()] ?? "pick the platform's recommended size"}`),
+        "",
+        `Then call \`update_tags\` on "${a.public_id}" to add the tag "social-pack".`,
+        a.caption_topic
+          ? `Write one caption per platform about ${a.caption_topic}, in that platform's usual length and tone.`
+          : "Write one short caption per platform.",
+        "",
+        "Reply with a table: platform, size, URL, caption.",
+      ].join("\n");
+    },
+  },
+  {
+    name: "video_teaser",
+    title: "Video teaser",
+    description: "Upload a video, cut a short teaser, pick a poster frame and queue web transcodes.",
+    arguments: [
+      { name: "file", description: "Local path, URL or data URI of the video", required: true },
+      { name: "seconds", description: "Teaser length in seconds (default: 6)" },
+      { name: "width", description: "Teaser width in pixels (default: 720)" },
+      { name: "folder", description: "Cloudinary folder (default: teasers)" },
+    ],
+    render: (a) => {
+      const width = Number(a.width) || 720;
+      const seconds = Number(a.seconds) || 6;
+      return [
+        "Make a teaser from a video.",
+        "",
+        `1. Call \`upload\` with ${fileArgument(a.file)}, resource_type "video", folder "${a.folder || "teasers"}" and wait true.`,
+        `2. Call \`video_trim\` with start_offset 0, duration ${seconds} and width ${width} for the teaser clip.`,
+        '3. Call `video_poster_frames` with offsets ["auto", "25p", "50p"] and pick the best frame as the poster.',
+        `4. Call \`video_transcode\` with transcodes [{ format: "mp4", width: ${width}, quality: "auto" }, { format: "webm", width: ${width} }] so the renditions are ready ahead of playback.`,
+        '5. Call `set_context` on the video (resource_type "video") with { teaser: "true", poster: <poster URL> } and a one-line `caption` you write.',
+        "",
+        "Reply with the teaser URL, the poster URL, the transcode URLs and the caption.",
+      ].join("\n");
+    },
+  },
+  {
+    name: "cleanup_audit",
+    title: "Asset cleanup audit",
+    description: "Find stale, untagged or oversized assets in a folder and propose (not perform) a cleanup.",
+    arguments: [
+      { name: "folder", description: "Folder to audit (default: everything)" },
+      { name: "older_than", description: "ISO date; assets created before it count as stale" },
+      { name: "min_bytes", description: "Assets at least this big count as oversized (default: 5000000)" },
+    ],
+    render: (a) => {
+      const scope = a.folder ? `folder "${a.folder}"` : "the whole account";
+      const minBytes = Number(a.min_bytes) || 5_000_000;
+      const inFolder = a.folder ? ` and folder "${a.folder}"` : "";
+      return [
+        `Audit ${scope} for assets that could be cleaned up.`,
+        "",
+        `1. Call \`search_assets\` with max_results 100${inFolder}, following next_cursor until done (stop after 5 pages and say so).`,
+        a.older_than ? `2. Call \`search_assets\` with created_before "${a.older_than}"${inFolder} to find stale assets.` : "2. Treat assets older than a year as stale.",
+        `3. Call \`search_assets\` with min_bytes ${minBytes}${inFolder} to find oversized assets.`,
+        "4. From the results, list assets with no tags, likely duplicates (same format and size with similar names) and the stale and oversized ones.",
+        "5. Call `delete_assets` with the candidate public_ids WITHOUT `confirm` to get a dry-run preview.",
+        "",
+        "Do not delete anything. Present the findings grouped by reason, with totals in bytes, and ask which groups to delete.",
+      ].join("\n");
+    },
+  },
+  {
+    name: "meme_caption",
+    title: "Make a meme",
+    description: "Write a funny meme caption for an uploaded image.",
+    arguments: [{ name: "url", description: "Delivery URL of the image", required: true }],
+    render: (a) => `Create a funny meme caption for the image I just uploaded. Link: ${a.url}`,
+  },
+  {
+    name: "tweet_upload",
+    title: "Tweet this",
+    description: "Draft a tweet that links to an uploaded asset.",
+    arguments: [{ name: "url", description: "Delivery URL of the asset", required: true }],
+    render: (a) => `Draft a tweet about this Cloudinary upload and include this link: ${a.url}`,
+  },
+];
+
+/** `prompts/list` entries. */
+export function listPrompts() {
+  return PROMPTS.map(({ name, title, description, arguments: args }) => ({ name, title, description, arguments: args }));
+}
+
+/** The prompt's user message, after checking its arguments. */
+export function renderPrompt(name: string, args: Record<string, string> = {}): string {
+  const prompt = PROMPTS.find((p) => p.name === name);
+  if (!prompt) throw new PromptArgumentError(`Unknown prompt: ${name}`);
+  const missing = prompt.arguments.filter((a) => a.required && !args[a.name]?.trim()).map((a) => a.name);
+  if (missing.length) throw new PromptArgumentError(`Prompt "${name}" needs: ${missing.join(", ")}`);
+  return prompt.render(args);
+}
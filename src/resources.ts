@@ -0,0 +1,85 @@
+import { EventEmitter } from "node:events";
+import path from "node:path";
+import type { ResourceType, StorageBackend } from "./storage/index.js";
+
+/**
+ * MCP resources for individual assets and folders:
+ *
+ *   cloudinary://asset/{resource_type}/{public_id}
+ *   cloudinary://folder/{path}
+ *
+ * Public IDs and folder paths keep their slashes in URIs; each segment is
+ * percent-encoded.
+ */
+
+export const ASSET_URI_TEMPLATE = "cloudinary://asset/{resource_type}/{public_id}";
+export const FOLDER_URI_TEMPLATE = "cloudinary://folder/{path}";
+
+const ASSET_PREFIX = "cloudinary://asset/";
+const FOLDER_PREFIX = "cloudinary://folder/";
+const RESOURCE_TYPES: ResourceType[] = ["image", "video", "raw"];
+
+function encodePath(value: string) {
+  return value.split("/").map(encodeURIComponent).join("/");
+}
+
+export function assetUri(resourceType: string, publicId: string) {
+  return `${ASSET_PREFIX}${resourceType}/${encodePath(publicId)}`;
+}
+
+export function folderUri(folder: string) {
+  return `${FOLDER_PREFIX}${encodePath(folder)}`;
+}
+
+/** `{ resource_type, public_id }` for an asset URI, undefined for anything else. */
+export function parseAssetUri(uri: string): { resource_type: ResourceType; public_id: string } | undefined {
+  if (!uri.startsWith(ASSET_PREFIX)) return undefined;
+  const [resourceType, ...rest] = uri.slice(ASSET_PREFIX.length).split("/");
+  const publicId = decodeURIComponent(rest.join("/"));
+  if (!RESOURCE_TYPES.includes(resourceType as ResourceType) || !publicId) return undefined;
+  return { resource_type: resourceType as ResourceType, public_id: publicId };
+}
+
+/** The folder path of a folder URI ("" for the root), undefined for anything else. */
+export function parseFolderUri(uri: string): string | undefined {
+  if (!uri.startsWith(FOLDER_PREFIX)) return undefined;
+  return decodeURIComponent(uri.slice(FOLDER_PREFIX.length)).replace(/^\/+|\/+$/g, "");
+}
+
+// ---------------- Change feed ----------------
+
+export type AssetChange = {
+  resource_type: string;
+  public_id: string;
+  /** Folder the asset is in; derived from the public ID when not given. */
+  folder?: string;
+  deleted?: boolean;
+};
+
+/**
+ * URIs a change touches: the asset itself and the folder listing it is in.
+ */
+export function changedUris(change: AssetChange) {
+  const dir = path.posix.dirname(change.public_id);
+  const folder = change.folder ?? (dir === "." ? "" : dir);
+  return [assetUri(change.resource_type, change.public_id), folderUri(folder)];
+}
+
+const feeds = new WeakMap<StorageBackend, EventEmitter>();
+
+/**
+ * Per-storage feed of asset changes made through this process. Sessions of
+ * the same tenant share a backend, so a change in one session reaches
+ * subscribers in the others; changes made elsewhere (e.g. the Cloudinary
+ * console) are not seen.
+ */
+export function assetChanges(storage: StorageBackend) {
+  let feed = feeds.get(storage);
+  if (!feed) {
+    feed = new EventEmitter();
+    // One listener per live session
+    feed.setMaxListeners(0);
+    feeds.set(storage, feed);
+  }
+  return feed as EventEmitter<{ change: [AssetChange] }>;
+}
@@ -0,0 +1,254 @@
+import type { Response } from "express";
+import type {
+  EventId,
+  EventStore,
+  StreamableHTTPServerTransport,
+  StreamId,
+} from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import type { CloudinaryServer } from "./cloudinary-server.js";
+import { logger } from "./logger.js";
+
+/**
+ * Keeps the last messages of each SSE stream in a session so a client that
+ * lost its connection can resume with Last-Event-ID. One store per session,
+ * dropped with it; memory is bounded by `maxEventsPerStream`.
+ */
+export class SessionEventStore implements EventStore {
+  private seq = 0;
+  private streams = new Map<StreamId, { id: EventId; message: JSONRPCMessage }[]>();
+  private streamOf = new Map<EventId, StreamId>();
+
+  constructor(private maxEventsPerStream: number) {}
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const id = String(++this.seq);
+    const events = this.streams.get(streamId) ?? [];
+    events.push({ id, message });
+    while (events.length > this.maxEventsPerStream) this.streamOf.delete(events.shift()!.id);
+    this.streams.set(streamId, events);
+    this.streamOf.set(id, streamId);
+    return id;
+  }
+
+  async getStreamIdForEventId(eventId: EventId) {
+    return this.streamOf.get(eventId);
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const streamId = this.streamOf.get(lastEventId);
+    // Too old (already evicted) or never issued: nothing to replay
+    if (!streamId) return "";
+    for (const event of this.streams.get(streamId) ?? []) {
+      if (Number(event.id) > Number(lastEventId)) await send(event.id, event.message);
+    }
+    return streamId;
+  }
+}
+
+export type SessionLimits = {
+  /** Close sessions with no request for this long. 0 disables expiry. */
+  idleTimeoutMs: number;
+  /** Concurrent sessions across all clients (503 beyond). 0 means no limit. */
+  maxSessions: number;
+  /** Concurrent sessions per API client (429 beyond). 0 means no limit. */
+  maxSessionsPerClient: number;
+  /** Events kept per SSE stream for Last-Event-ID resumption. */
+  eventHistory: number;
+};
+
+export type Session = {
+  id: string;
+  transport: StreamableHTTPServerTransport;
+  server: CloudinaryServer;
+  eventStore: SessionEventStore;
+  createdAt: number;
+  lastActivityAt: number;
+  /** Requests (including open SSE streams) in flight; a busy session never expires. */
+  activeRequests: number;
+};
+
+/**
+ * Thrown when a new session would exceed a limit. `retry_after` is in seconds.
+ */
+export class SessionLimitError extends Error {
+  constructor(
+    message: string,
+    readonly http_code: 429 | 503,
+    readonly retry_after: number
+  ) {
+    super(message);
+    this.name = "SessionLimitError";
+  }
+}
+
+/**
+ * A slot taken by `admit` for a session still initializing, so concurrent
+ * initialize requests count against the limits. `add` consumes it; release
+ * it if initialization fails. Releasing twice is harmless.
+ */
+export type SessionReservation = { release(): void };
+
+function nonNegativeInt(value: string | undefined, fallback: number) {
+  const n = Number(value);
+  return value && Number.isFinite(n) && n >= 0 ? Math.floor(n) : fallback;
+}
+
+/**
+ * Live MCP sessions of the HTTP transport, with idle expiry and limits.
+ */
+export class SessionManager {
+  private sessions = new Map<string, Session>();
+  /** Admitted sessions that have not been added yet, in total and per client. */
+  private pending = 0;
+  private pendingByClient = new Map<string, number>();
+  private sweeper?: NodeJS.Timeout;
+
+  constructor(readonly limits: SessionLimits) {}
+
+  /**
+   * SESSION_IDLE_TIMEOUT_SECONDS (default 1800), MAX_SESSIONS (default 100),
+   * MAX_SESSIONS_PER_CLIENT (default 10), SESSION_EVENT_HISTORY (default 500).
+   */
+  static limitsFromEnv(env: NodeJS.ProcessEnv = process.env): SessionLimits {
+    return {
+      idleTimeoutMs: nonNegativeInt(env.SESSION_IDLE_TIMEOUT_SECONDS, 1800) * 1000,
+      maxSessions: nonNegativeInt(env.MAX_SESSIONS, 100),
+      maxSessionsPerClient: nonNegativeInt(env.MAX_SESSIONS_PER_CLIENT, 10),
+      eventHistory: nonNegativeInt(env.SESSION_EVENT_HISTORY, 500),
+    };
+  }
+
+  get size() {
+    return this.sessions.size;
+  }
+
+  get(id: string) {
+    return this.sessions.get(id);
+  }
+
+  createEventStore() {
+    return new SessionEventStore(this.limits.eventHistory);
+  }
+
+  /**
+   * Reserve a session slot for `clientId`, or throw if it may not open
+   * another session. Sessions still initializing count too. The server-wide
+   * cap is a 503 (try later or elsewhere); the per-client cap is a 429.
+   */
+  admit(clientId: string | undefined): SessionReservation {
+    const retryAfter = Math.max(1, Math.ceil(Math.min(this.limits.idleTimeoutMs || 60_000, 60_000) / 1000));
+    if (this.limits.maxSessions && this.sessions.size + this.pending >= this.limits.maxSessions) {
+      throw new SessionLimitError(`Server is at its limit of ${this.limits.maxSessions} sessions`, 503, retryAfter);
+    }
+    if (clientId !== undefined) {
+      const owned =
+        [...this.sessions.values()].filter((s) => s.server.identity?.clientId === clientId).length +
+        (this.pendingByClient.get(clientId) ?? 0);
+      if (this.limits.maxSessionsPerClient && owned >= this.limits.maxSessionsPerClient) {
+        throw new SessionLimitError(
+          `Client "${clientId}" already has ${owned} open sessions (limit ${this.limits.maxSessionsPerClient}); close one with DELETE /mcp`,
+          429,
+          retryAfter
+        );
+      }
+      this.pendingByClient.set(clientId, (this.pendingByClient.get(clientId) ?? 0) + 1);
+    }
+    this.pending++;
+
+    let released = false;
+    return {
+      release: () => {
+        if (released) return;
+        released = true;
+        this.pending--;
+        if (clientId === undefined) return;
+        const left = (this.pendingByClient.get(clientId) ?? 1) - 1;
+        if (left > 0) this.pendingByClient.set(clientId, left);
+        else this.pendingByClient.delete(clientId);
+      },
+    };
+  }
+
+  /** Register an initialized session in the slot `reservation` held. */
+  add(session: Omit<Session, "createdAt" | "lastActivityAt" | "activeRequests">, reservation: SessionReservation) {
+    const now = Date.now();
+    this.sessions.set(session.id, { ...session, createdAt: now, lastActivityAt: now, activeRequests: 0 });
+    reservation.release();
+  }
+
+  /** Record activity on a session for as long as `res` is open. */
+  track(id: string, res: Response) {
+    const session = this.sessions.get(id);
+    if (!session) return;
+    session.activeRequests++;
+    session.lastActivityAt = Date.now();
+    res.on("close", () => {
+      session.activeRequests--;
+      session.lastActivityAt = Date.now();
+    });
+  }
+
+  /** Forget a session and shut down its transport and server. Safe to call twice. */
+  async close(id: string) {
+    const session = this.sessions.get(id);
+    if (!session) return;
+    this.sessions.delete(id);
+    try {
+      await session.transport.close();
+    } catch {}
+    try {
+      await session.server.close();
+    } catch {}
+  }
+
+  /** Close every session idle for longer than the timeout. */
+  async sweep(now = Date.now()) {
+    const expired = [...this.sessions.values()].filter(
+      (s) => s.activeRequests === 0 && now - s.lastActivityAt > this.limits.idleTimeoutMs
+    );
+    for (const s of expired) {
+      logger.info("session expired", { session_id: s.id, idle_seconds: Math.round((now - s.lastActivityAt) / 1000) });
+      await this.close(s.id);
+    }
+    return expired.length;
+  }
+
+  /** Sweep periodically; the timer does not keep the process alive. */
+  start() {
+    if (!this.limits.idleTimeoutMs || this.sweeper) return;
+    const every = Math.min(60_000, Math.max(1000, this.limits.idleTimeoutMs / 4));
+    this.sweeper = setInterval(() => void this.sweep(), every);
+    this.sweeper.unref();
+  }
+
+  async stop() {
+    clearInterval(this.sweeper);
+    this.sweeper = undefined;
+    await Promise.all([...this.sessions.keys()].map((id) => this.close(id)));
+  }
+
+  /** What the /sessions admin endpoint reports. */
+  snapshot(now = Date.now()) {
+    return {
+      count: this.sessions.size,
+      limits: {
+        max_sessions: this.limits.maxSessions,
+        max_sessions_per_client: this.limits.maxSessionsPerClient,
+        idle_timeout_seconds: this.limits.idleTimeoutMs / 1000,
+      },
+      sessions: [...this.sessions.values()].map((s) => ({
+        id: s.id,
+        client_id: s.server.identity?.clientId ?? null,
+        tenant: s.server.tenant ?? null,
+        created_at: new Date(s.createdAt).toISOString(),
+        last_activity_at: new Date(s.lastActivityAt).toISOString(),
+        idle_seconds: s.activeRequests ? 0 : Math.round((now - s.lastActivityAt) / 1000),
+        active_requests: s.activeRequests,
+      })),
+    };
+  }
+}
@@ -0,0 +1,475 @@
+import { v2 as cloudinary, UploadApiOptions, UploadApiResponse } from "cloudinary";
+import {
+  AnalysisFeature,
+  AnalysisRequest,
+  AssetAnalysis,
+  DestroyResult,
+  Download,
+  ExplicitOptions,
+  ExplicitResult,
+  ListQuery,
+  ListResult,
+  NamedTransformationResult,
+  ResourceType,
+  SearchQuery,
+  SearchResult,
+  SignedUpload,
+  StorageBackend,
+  StorageError,
+  TransformationComponent,
+  UploadSource,
+  UrlOptions,
+} from "./types.js";
+import { Resilience, type RetryPolicy } from "./resilience.js";
+
+function requireEnv(env: NodeJS.ProcessEnv, name: string) {
+  const v = env[name];
+  if (!v) throw new Error(`Missing required env var: ${name}`);
+  return v;
+}
+
+/** The SDK rejects with plain `{ error: { message } }` objects. */
+function addonError(err: any): string {
+  return err?.error?.message ?? err?.message ?? String(err);
+}
+
+/**
+ * Quote a value for use inside a Cloudinary search expression.
+ */
+function quoteSearchValue(value: string) {
+  return `"${value.replace(/(["\\])/g, "\\$1")}"`;
+}
+
+/**
+ * Build a Search API expression from structured filters.
+ * An explicit `expression` is AND-ed with the structured filters.
+ */
+export function buildSearchExpression(query: Omit<SearchQuery, "max_results">): string {
+  const terms: string[] = [];
+
+  if (query.expression?.trim()) terms.push(`(${query.expression.trim()})`);
+  if (query.resource_type) terms.push(`resource_type:${query.resource_type}`);
+  for (const tag of query.tags ?? []) terms.push(`tags=${quoteSearchValue(tag)}`);
+  if (query.folder) terms.push(`folder=${quoteSearchValue(query.folder)}`);
+  if (query.format) terms.push(`format=${query.format.toLowerCase()}`);
+  if (query.created_after) terms.push(`created_at>=${quoteSearchValue(query.created_after)}`);
+  if (query.created_before) terms.push(`created_at<=${quoteSearchValue(query.created_before)}`);
+  if (typeof query.min_bytes === "number") terms.push(`bytes>=${Math.floor(query.min_bytes)}`);
+  if (typeof query.max_bytes === "number") terms.push(`bytes<=${Math.floor(query.max_bytes)}`);
+
+  return terms.join(" AND ");
+}
+
+/**
+ * Serialize a context map as Cloudinary's `key=value|key=value` string,
+ * escaping the separators inside values.
+ */
+function serializeContext(context: Record<string, string>) {
+  return Object.entries(context)
+    .map(([k, v]) => `${k}=${String(v).replace(/([=|])/g, "\\$1")}`)
+    .join("|");
+}
+
+/** Cloudinary accepts a signed upload for an hour after its timestamp. */
+export const SIGNATURE_MAX_AGE_SECONDS = 3600;
+
+/**
+ * The timestamp to sign so that a signature lapses after `ttlSeconds`:
+ * Cloudinary accepts it for an hour, so a shorter life means backdating it.
+ */
+export function signatureWindow(ttlSeconds: number) {
+  const ttl = Math.min(Math.max(1, Math.floor(ttlSeconds)), SIGNATURE_MAX_AGE_SECONDS);
+  const now = Math.floor(Date.now() / 1000);
+  return { timestamp: now - (SIGNATURE_MAX_AGE_SECONDS - ttl), expires_at: new Date((now + ttl) * 1000).toISOString() };
+}
+
+/**
+ * Upload options as the string form fields of a signed upload, without empty
+ * values. `resource_type` is part of the upload URL instead.
+ */
+export function uploadFormFields(options: UploadApiOptions, timestamp: number): Record<string, string> {
+  const { resource_type: _, ...rest } = options;
+  // Same conversions (tag lists, eager transformations, booleans) the SDK applies to its own uploads
+  const params = { ...(cloudinary.utils as any).build_upload_params(rest), timestamp };
+  return Object.fromEntries(
+    Object.entries(params)
+      .filter(([, v]) => v !== undefined && v !== null && v !== "")
+      .map(([k, v]) => [k, String(v)])
+  );
+}
+
+export type CloudinaryAccount = {
+  cloud_name: string;
+  api_key: string;
+  api_secret: string;
+};
+
+/**
+ * A real Cloudinary account. Credentials travel with every call instead of
+ * going through the SDK's global `cloudinary.config()`, so several accounts
+ * can live in one process without seeing each other. Every outbound call
+ * goes through the account's Resilience (timeouts, retries, circuit breaker).
+ */
+export class CloudinaryBackend implements StorageBackend {
+  readonly name = "cloudinary";
+
+  constructor(
+    private account: CloudinaryAccount,
+    private resilience = new Resilience()
+  ) {}
+
+  /** The account from CLOUDINARY_* env vars. */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env) {
+    return new CloudinaryBackend(
+      {
+        cloud_name: requireEnv(env, "CLOUDINARY_CLOUD_NAME"),
+        api_key: requireEnv(env, "CLOUDINARY_API_KEY"),
+        api_secret: requireEnv(env, "CLOUDINARY_API_SECRET"),
+      },
+      new Resilience(Resilience.configFromEnv(env))
+    );
+  }
+
+  health() {
+    return this.resilience.health();
+  }
+
+  /** Merge this account's credentials into SDK call options. */
+  private opts<T extends object>(options: T): T & CloudinaryAccount {
+    return { ...options, ...this.account };
+  }
+
+  /** Reads, and writes that land in the same state when repeated, are `idempotent`. */
+  private call<T>(operation: string, retry: RetryPolicy, fn: (signal: AbortSignal) => Promise<T>) {
+    return this.resilience.run(operation, { retry }, fn);
+  }
+
+  async upload(source: UploadSource, options: UploadApiOptions): Promise<UploadApiResponse> {
+    if (source.kind === "url") {
+      // A repeated fetch could create a second asset, so only calls that never ran are retried
+      return this.resilience.run(
+        "upload",
+        { retry: "unprocessed", upload: true },
+        async () => (await cloudinary.uploader.upload(source.url, this.opts(options))) as UploadApiResponse
+      );
+    }
+
+    // Chunked upload; backpressure keeps at most one chunk in memory. The stream cannot be replayed.
+    return this.resilience.run("upload", { retry: "none", upload: true }, (signal) =>
+      new Promise<UploadApiResponse>((resolve, reject) => {
+        const upload = cloudinary.uploader.upload_chunked_stream(this.opts(options), (err: any, r: any) =>
+          err ? reject(err) : resolve(r)
+        );
+        source.stream.on("error", (err) => {
+          upload.destroy();
+          reject(err);
+        });
+        signal.addEventListener("abort", () => {
+          source.stream.unpipe(upload);
+          source.stream.destroy();
+          upload.destroy();
+        });
+        source.stream.pipe(upload);
+      })
+    );
+  }
+
+  async search(query: SearchQuery): Promise<SearchResult> {
+    const expression = buildSearchExpression(query);
+
+    let search = cloudinary.search
+      .expression(expression)
+      .max_results(query.max_results)
+      .with_field("tags")
+      .sort_by(query.sort_by ?? "created_at", query.sort_direction ?? "desc");
+    if (query.next_cursor) search = search.next_cursor(query.next_cursor);
+
+    // The typings omit execute()'s options argument
+    const result: any = await this.call("search", "idempotent", () => (search as any).execute(this.opts({})));
+    return {
+      expression,
+      total_count: result.total_count ?? 0,
+      next_cursor: result.next_cursor ?? null,
+      resources: result.resources ?? [],
+    };
+  }
+
+  async getResource(publicId: string, resourceType: ResourceType) {
+    return this.call("resource lookup", "idempotent", () =>
+      cloudinary.api.resource(
+        publicId,
+        this.opts({
+          resource_type: resourceType,
+          tags: true,
+          context: true,
+        }) as any
+      )
+    );
+  }
+
+  async listResources(query: ListQuery): Promise<ListResult> {
+    const result = await this.call("resource listing", "idempotent", () =>
+      "public_ids" in query
+        ? cloudinary.api.resources_by_ids(
+            query.public_ids,
+            this.opts({
+              resource_type: query.resource_type,
+              tags: true,
+            }) as any
+          )
+        : cloudinary.api.resources(
+            this.opts({
+              type: "upload",
+              prefix: query.prefix,
+              resource_type: query.resource_type,
+              max_results: 500,
+              tags: true,
+            }) as any
+          )
+    );
+
+    return { resources: result.resources ?? [], next_cursor: result.next_cursor };
+  }
+
+  async listFolders(parent: string) {
+    // The v2 wrapper takes options first, unlike the typings
+    const options = this.opts({ max_results: 500 }) as any;
+    const result = await this.call("folder listing", "idempotent", () =>
+      parent ? cloudinary.api.sub_folders(parent, options) : cloudinary.api.root_folders(options)
+    );
+    return (result.folders ?? []).map((f: { path: string }) => f.path);
+  }
+
+  async destroy(query: ListQuery): Promise<DestroyResult> {
+    const options = this.opts({ resource_type: query.resource_type, invalidate: true }) as any;
+
+    // A repeated delete would report already-deleted assets as missing, so only calls that never ran are retried
+    if ("public_ids" in query && query.public_ids.length === 1) {
+      const r = await this.call("delete", "unprocessed", () =>
+        cloudinary.uploader.destroy(query.public_ids[0], options)
+      );
+      return { deleted: r.result === "ok" ? [query.public_ids[0]] : [], partial: false };
+    }
+
+    const r = await this.call("delete", "unprocessed", () =>
+      "public_ids" in query
+        ? cloudinary.api.delete_resources(query.public_ids, options)
+        : cloudinary.api.delete_resources_by_prefix(query.prefix, options)
+    );
+
+    return {
+      deleted: Object.entries(r.deleted ?? {})
+        .filter(([, status]) => status === "deleted")
+        .map(([id]) => id),
+      partial: Boolean(r.partial),
+    };
+  }
+
+  async rename(
+    fromPublicId: string,
+    toPublicId: string,
+    options: { resource_type: ResourceType; overwrite?: boolean }
+  ) {
+    return this.call(
+      "rename",
+      "unprocessed",
+      () =>
+        cloudinary.uploader.rename(
+          fromPublicId,
+          toPublicId,
+          this.opts({ ...options, invalidate: true }) as any
+        ) as Promise<UploadApiResponse>
+    );
+  }
+
+  async addTag(tag: string, publicIds: string[], resourceType: ResourceType) {
+    await this.call("tagging", "idempotent", () =>
+      cloudinary.uploader.add_tag(tag, publicIds, this.opts({ resource_type: resourceType }) as any)
+    );
+  }
+
+  async removeTag(tag: string, publicIds: string[], resourceType: ResourceType) {
+    await this.call("tagging", "idempotent", () =>
+      cloudinary.uploader.remove_tag(tag, publicIds, this.opts({ resource_type: resourceType }) as any)
+    );
+  }
+
+  async addContext(context: Record<string, string>, publicIds: string[], resourceType: ResourceType) {
+    await this.call("context update", "idempotent", () =>
+      cloudinary.uploader.add_context(
+        serializeContext(context),
+        publicIds,
+        this.opts({ resource_type: resourceType }) as any
+      )
+    );
+  }
+
+  async explicit(publicId: string, options: ExplicitOptions): Promise<ExplicitResult> {
+    const r: any = await this.call("explicit", "idempotent", () =>
+      cloudinary.uploader.explicit(
+        publicId,
+        this.opts({
+          type: "upload",
+          resource_type: options.resource_type,
+          eager: options.eager.map((e) => ({ transformation: e.transformation, format: e.format })),
+          eager_async: options.eager_async,
+          eager_notification_url: options.notification_url,
+        }) as any
+      )
+    );
+    const eager: any[] = r.eager ?? [];
+    return {
+      public_id: r.public_id ?? publicId,
+      status: options.eager_async && eager.some((e) => e.status === "processing" || !e.secure_url) ? "pending" : "processed",
+      batch_id: r.batch_id,
+      derived: options.eager.map((e, i) => ({
+        transformation: eager[i]?.transformation ?? "",
+        format: e.format,
+        url:
+          eager[i]?.secure_url ??
+          this.url(publicId, { resource_type: options.resource_type, format: e.format, transformation: e.transformation }),
+      })),
+    };
+  }
+
+  /**
+   * Colors and faces come from the Admin API; tagging, captioning, OCR and
+   * moderation are add-ons, each requested with its own explicit call so one
+   * that is not enabled does not block the others.
+   */
+  async analyze(publicId: string, resourceType: ResourceType, request: AnalysisRequest): Promise<AssetAnalysis> {
+    const analysis: AssetAnalysis = { public_id: publicId, resource_type: resourceType, unavailable: [] };
+    const wanted = new Set(request.features);
+    const skip = (feature: AnalysisFeature, err: unknown) =>
+      analysis.unavailable.push({ feature, reason: addonError(err) });
+
+    if (wanted.has("colors") || wanted.has("faces")) {
+      try {
+        const r: any = await this.call("analysis", "idempotent", () =>
+          cloudinary.api.resource(
+            publicId,
+            this.opts({ resource_type: resourceType, colors: wanted.has("colors"), faces: wanted.has("faces") }) as any
+          )
+        );
+        if (wanted.has("colors")) {
+          analysis.colors = (r.colors ?? []).map(([color, percent]: [string, number]) => ({ color, percent }));
+        }
+        if (wanted.has("faces")) {
+          analysis.faces = (r.faces ?? []).map(([x, y, width, height]: number[]) => ({ x, y, width, height }));
+        }
+      } catch (err) {
+        if (wanted.has("colors")) skip("colors", err);
+        if (wanted.has("faces")) skip("faces", err);
+      }
+    }
+
+    const addons: { feature: AnalysisFeature; options: object; read: (r: any) => void }[] = [
+      {
+        feature: "tags",
+        options: {
+          categorization: "google_tagging",
+          ...(request.auto_tag_threshold !== undefined ? { auto_tagging: request.auto_tag_threshold } : {}),
+        },
+        read: (r) => {
+          analysis.tags = (r.info?.categorization?.google_tagging?.data ?? []).map((t: any) => ({
+            tag: String(t.tag),
+            confidence: Number(t.confidence),
+          }));
+        },
+      },
+      {
+        feature: "caption",
+        options: { detection: "captioning" },
+        read: (r) => {
+          analysis.caption = r.info?.detection?.captioning?.data?.caption;
+        },
+      },
+      {
+        feature: "ocr",
+        options: { ocr: "adv_ocr" },
+        read: (r) => {
+          const data = r.info?.ocr?.adv_ocr?.data?.[0];
+          analysis.ocr_text = (data?.fullTextAnnotation?.text ?? data?.textAnnotations?.[0]?.description ?? "").trim();
+        },
+      },
+      {
+        feature: "moderation",
+        options: { moderation: "aws_rek" },
+        read: (r) => {
+          analysis.moderation = (r.moderation ?? []).map((m: any) => ({ kind: m.kind, status: m.status }));
+        },
+      },
+    ];
+
+    for (const addon of addons.filter((a) => wanted.has(a.feature))) {
+      try {
+        const r: any = await this.call("analysis", "idempotent", () =>
+          cloudinary.uploader.explicit(
+            publicId,
+            this.opts({ type: "upload", resource_type: resourceType, ...addon.options }) as any
+          )
+        );
+        addon.read(r);
+      } catch (err) {
+        skip(addon.feature, err);
+      }
+    }
+    return analysis;
+  }
+
+  async saveNamedTransformation(
+    name: string,
+    transformation: TransformationComponent[],
+    options: { overwrite?: boolean } = {}
+  ): Promise<NamedTransformationResult> {
+    const definition = transformation
+      .map((c) => cloudinary.utils.generate_transformation_string({ ...c } as any))
+      .join("/");
+    try {
+      await this.call("transformation save", "unprocessed", () =>
+        cloudinary.api.create_transformation(name, definition, this.opts({}) as any)
+      );
+      return { name, transformation: definition, created: true };
+    } catch (err: any) {
+      const code = err?.http_code ?? err?.error?.http_code;
+      if (code !== 409 || !options.overwrite) throw err;
+    }
+    await this.call("transformation save", "idempotent", () =>
+      cloudinary.api.update_transformation(name, { unsafe_update: definition } as any, this.opts({}) as any)
+    );
+    return { name, transformation: definition, created: false };
+  }
+
+  url(publicId: string, options: UrlOptions = {}) {
+    return cloudinary.url(publicId, {
+      cloud_name: this.account.cloud_name,
+      resource_type: options.resource_type ?? "image",
+      secure: true,
+      format: options.format,
+      transformation: (options.transformation ?? []) as any,
+    });
+  }
+
+  signUpload(options: UploadApiOptions, ttlSeconds: number): SignedUpload {
+    const { timestamp, expires_at } = signatureWindow(ttlSeconds);
+    const fields = uploadFormFields(options, timestamp);
+    fields.signature = cloudinary.utils.api_sign_request(fields, this.account.api_secret);
+    fields.api_key = this.account.api_key;
+    const url = cloudinary.utils.api_url("upload", {
+      cloud_name: this.account.cloud_name,
+      resource_type: options.resource_type ?? "auto",
+    });
+    return { url, fields, expires_at };
+  }
+
+  async download(publicId: string, options: UrlOptions = {}): Promise<Download> {
+    return this.call("download", "idempotent", async (signal) => {
+      const res = await fetch(this.url(publicId, options), { signal });
+      if (!res.ok) throw new StorageError(`Download of ${publicId} failed: HTTP ${res.status}`, res.status);
+      return {
+        data: Buffer.from(await res.arrayBuffer()),
+        mimeType: res.headers.get("content-type") ?? "application/octet-stream",
+      };
+    });
+  }
+}
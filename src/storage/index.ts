@@ -0,0 +1,43 @@
+import path from "node:path";
+import { CloudinaryBackend, type CloudinaryAccount } from "./cloudinary-backend.js";
+import { LocalBackend, LOCAL_ASSETS_ROUTE } from "./local-backend.js";
+import { Resilience } from "./resilience.js";
+import type { StorageBackend } from "./types.js";
+
+export * from "./types.js";
+export { CloudinaryBackend, SIGNATURE_MAX_AGE_SECONDS, type CloudinaryAccount } from "./cloudinary-backend.js";
+export { LocalBackend, LOCAL_ASSETS_ROUTE, UPLOAD_RESOURCE_TYPES } from "./local-backend.js";
+export { CallTimeoutError, CircuitOpenError, Resilience, type ResilienceConfig } from "./resilience.js";
+
+/**
+ * Pick the backend from STORAGE_BACKEND: "cloudinary" (default) or "local".
+ * The local emulator needs no credentials; its files are served over HTTP
+ * at LOCAL_STORAGE_BASE_URL (default http://localhost:$PORT/local-assets).
+ *
+ * With a `tenant`, the backend is scoped to it: its Cloudinary account, or
+ * its own subdirectory and URL prefix in the emulator.
+ */
+export function createStorageBackend(
+  env: NodeJS.ProcessEnv = process.env,
+  tenant?: { name: string; account: CloudinaryAccount }
+): StorageBackend {
+  const kind = storageKind(env);
+
+  if (kind === "cloudinary") {
+    // One Resilience per account: limits and the circuit breaker are per account
+    return tenant
+      ? new CloudinaryBackend(tenant.account, new Resilience(Resilience.configFromEnv(env)))
+      : CloudinaryBackend.fromEnv(env);
+  }
+
+  const root = path.resolve(env.LOCAL_STORAGE_DIR || ".local-storage");
+  const baseUrl = env.LOCAL_STORAGE_BASE_URL || `http://localhost:${env.PORT || 3000}${LOCAL_ASSETS_ROUTE}`;
+  if (!tenant) return new LocalBackend(root, baseUrl);
+  return new LocalBackend(path.join(root, tenant.name), `${baseUrl}/${encodeURIComponent(tenant.name)}`);
+}
+
+export function storageKind(env: NodeJS.ProcessEnv = process.env): "cloudinary" | "local" {
+  const kind = (env.STORAGE_BACKEND || "cloudinary").toLowerCase();
+  if (kind === "cloudinary" || kind === "local") return kind;
+  throw new Error(`Unknown STORAGE_BACKEND: ${kind} (expected "cloudinary" or "local")`);
+}
@@ -0,0 +1,616 @@
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import { createWriteStream } from "node:fs";
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { Readable, Transform } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { v2 as cloudinary, UploadApiOptions, UploadApiResponse } from "cloudinary";
+import {
+  buildSearchExpression,
+  SIGNATURE_MAX_AGE_SECONDS,
+  signatureWindow,
+  uploadFormFields,
+} from "./cloudinary-backend.js";
+import {
+  AnalysisFeature,
+  AnalysisRequest,
+  AssetAnalysis,
+  DestroyResult,
+  Download,
+  ExplicitOptions,
+  ExplicitResult,
+  ListQuery,
+  ListResult,
+  NamedTransformationResult,
+  ResourceType,
+  SearchQuery,
+  SearchResult,
+  SignedUpload,
+  StorageBackend,
+  StorageError,
+  TransformationComponent,
+  UploadSource,
+  UrlOptions,
+} from "./types.js";
+
+/** Express mount path for files served by the local backend. */
+export const LOCAL_ASSETS_ROUTE = "/local-assets";
+
+const IMAGE_FORMATS = ["jpg", "jpeg", "png", "gif", "webp", "avif", "svg", "bmp", "tiff", "ico", "heic"];
+const VIDEO_FORMATS = ["mp4", "mov", "webm", "mkv", "avi", "m4v", "ogv", "mp3", "wav", "ogg", "m4a"];
+
+const MIME_FORMATS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/avif": "avif",
+  "image/svg+xml": "svg",
+  "video/mp4": "mp4",
+  "video/quicktime": "mov",
+  "video/webm": "webm",
+  "audio/mpeg": "mp3",
+  "application/pdf": "pdf",
+  "text/plain": "txt",
+};
+
+/** Where each analysis feature lands in AssetAnalysis. */
+const ANALYSIS_FIELDS: Record<AnalysisFeature, Exclude<keyof AssetAnalysis, "public_id" | "resource_type" | "unavailable">> = {
+  tags: "tags",
+  caption: "caption",
+  ocr: "ocr_text",
+  moderation: "moderation",
+  colors: "colors",
+  faces: "faces",
+};
+
+type LocalRecord = UploadApiResponse & { file: string };
+
+/** Resource types an upload may name; each stored type is a directory under `root/files`. */
+export const UPLOAD_RESOURCE_TYPES = ["image", "video", "raw", "auto"];
+
+function randomId(length = 20) {
+  const alphabet = "abcdefghijklmnopqrstuvwxyz0123456789";
+  return Array.from(randomBytes(length), (b) => alphabet[b % alphabet.length]).join("");
+}
+
+function timestamp(date = new Date()) {
+  return date.toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+function toList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === "string" && value) return value.split(",").map((v) => v.trim()).filter(Boolean);
+  return [];
+}
+
+function toContext(value: unknown): Record<string, string> | undefined {
+  if (value && typeof value === "object") return value as Record<string, string>;
+  if (typeof value === "string" && value) {
+    return Object.fromEntries(value.split("|").map((pair) => pair.split("=") as [string, string]));
+  }
+  return undefined;
+}
+
+function assertSafePublicId(publicId: string) {
+  if (!publicId || path.isAbsolute(publicId) || publicId.split("/").some((s) => s === ".." || s === "")) {
+    throw new StorageError(`Invalid public_id: ${publicId}`, 400);
+  }
+}
+
+/**
+ * Offline stand-in for Cloudinary. Files live under `root/files`, metadata in
+ * `root/index.json`, and delivery URLs point at LOCAL_ASSETS_ROUTE on the
+ * HTTP server. Transformations are kept in URLs but not applied.
+ */
+export class LocalBackend implements StorageBackend {
+  readonly name = "local";
+
+  private records = new Map<string, LocalRecord>();
+  private loaded?: Promise<void>;
+  private saving: Promise<void> = Promise.resolve();
+  /** Signs direct uploads; a new one per process, so signatures do not survive a restart. */
+  private uploadSecret = randomBytes(32).toString("hex");
+
+  constructor(
+    private root: string,
+    private baseUrl: string
+  ) {}
+
+  // ---------------- Index ----------------
+
+  private key(resourceType: string, publicId: string) {
+    return `${resourceType}/${publicId}`;
+  }
+
+  private ensureLoaded() {
+    this.loaded ??= (async () => {
+      await mkdir(path.join(this.root, "tmp"), { recursive: true });
+      try {
+        const saved = JSON.parse(await readFile(path.join(this.root, "index.json"), "utf8"));
+        for (const record of saved as LocalRecord[]) {
+          this.records.set(this.key(record.resource_type, record.public_id), record);
+        }
+      } catch (err: any) {
+        if (err?.code !== "ENOENT") throw err;
+      }
+    })();
+    return this.loaded;
+  }
+
+  /** Writes are chained so concurrent mutations never interleave. */
+  private persist() {
+    const snapshot = JSON.stringify([...this.records.values()], null, 2);
+    const file = path.join(this.root, "index.json");
+    this.saving = this.saving.then(async () => {
+      await writeFile(`${file}.tmp`, snapshot);
+      await rename(`${file}.tmp`, file);
+    });
+    return this.saving;
+  }
+
+  private require(publicId: string, resourceType: ResourceType) {
+    const record = this.records.get(this.key(resourceType, publicId));
+    if (!record) throw new StorageError(`Resource not found - ${publicId}`, 404);
+    return record;
+  }
+
+  private filePath(resourceType: string, publicId: string, format?: string) {
+    return path.join(this.root, "files", resourceType, format ? `${publicId}.${format}` : publicId);
+  }
+
+  /** Strip the internal `file` field and refresh delivery URLs. */
+  private present(record: LocalRecord): UploadApiResponse {
+    const { file: _file, ...rest } = record;
+    const url = this.url(record.public_id, { resource_type: record.resource_type as ResourceType });
+    return { ...rest, url, secure_url: url } as UploadApiResponse;
+  }
+
+  // ---------------- Upload ----------------
+
+  async upload(source: UploadSource, options: UploadApiOptions): Promise<UploadApiResponse> {
+    await this.ensureLoaded();
+
+    let stream: Readable;
+    let filename: string | undefined;
+    let mimeType: string | undefined;
+
+    if (source.kind === "url") {
+      const response = await (source.fetch ?? fetch)(source.url);
+      if (!response.ok || !response.body) {
+        throw new StorageError(`Failed to fetch ${source.url}: HTTP ${response.status}`, 400);
+      }
+      stream = Readable.fromWeb(response.body as any);
+      filename = decodeURIComponent(new URL(source.url).pathname.split("/").pop() || "");
+      mimeType = response.headers.get("content-type")?.split(";")[0];
+    } else {
+      ({ stream, filename, mimeType } = source);
+    }
+
+    // Write to a temp file while hashing, then move into place
+    const tmp = path.join(this.root, "tmp", randomId());
+    const hash = createHash("md5");
+    let bytes = 0;
+    try {
+      await pipeline(
+        stream,
+        new Transform({
+          transform(chunk: Buffer, _enc, done) {
+            hash.update(chunk);
+            bytes += chunk.length;
+            done(null, chunk);
+          },
+        }),
+        createWriteStream(tmp)
+      );
+      return await this.store(tmp, { filename, mimeType, bytes, etag: hash.digest("hex") }, options);
+    } finally {
+      await rm(tmp, { force: true });
+    }
+  }
+
+  /** Turn a fully written temp file into a stored asset. */
+  private async store(
+    tmp: string,
+    meta: { filename?: string; mimeType?: string; bytes: number; etag: string },
+    options: UploadApiOptions
+  ): Promise<UploadApiResponse> {
+    const { filename, mimeType, bytes, etag } = meta;
+    const ext = filename ? path.extname(filename).slice(1).toLowerCase() : "";
+    const format = (ext || (mimeType && MIME_FORMATS[mimeType]) || "").replace(/^jpeg$/, "jpg");
+    const requested = options.resource_type;
+    if (requested && !UPLOAD_RESOURCE_TYPES.includes(requested)) {
+      throw new StorageError(`Invalid resource_type: ${requested}`, 400);
+    }
+    const resourceType: ResourceType =
+      requested && requested !== "auto"
+        ? (requested as ResourceType)
+        : IMAGE_FORMATS.includes(format)
+          ? "image"
+          : VIDEO_FORMATS.includes(format)
+            ? "video"
+            : "raw";
+
+    let publicId = options.public_id || randomId();
+    if (options.folder && !publicId.startsWith(`${options.folder}/`)) {
+      publicId = `${String(options.folder).replace(/\/+$/, "")}/${publicId}`;
+    }
+    // Like Cloudinary, raw public IDs keep their extension
+    if (resourceType === "raw" && format && !publicId.endsWith(`.${format}`)) publicId += `.${format}`;
+    assertSafePublicId(publicId);
+
+    const existing = this.records.get(this.key(resourceType, publicId));
+    if (existing && options.overwrite === false) {
+      return { ...this.present(existing), existing: true } as UploadApiResponse;
+    }
+
+    const storedFormat = resourceType === "raw" ? undefined : format || undefined;
+    const file = this.filePath(resourceType, publicId, storedFormat);
+    if (existing) await rm(existing.file, { force: true });
+    await mkdir(path.dirname(file), { recursive: true });
+    await rename(tmp, file);
+
+    const now = new Date();
+    const context = toContext(options.context);
+    const record = {
+      asset_id: randomBytes(16).toString("hex"),
+      public_id: publicId,
+      version: Math.floor(now.getTime() / 1000),
+      version_id: randomBytes(16).toString("hex"),
+      signature: randomBytes(20).toString("hex"),
+      format: storedFormat,
+      resource_type: resourceType,
+      created_at: timestamp(now),
+      tags: toList(options.tags),
+      bytes,
+      type: "upload",
+      etag,
+      placeholder: false,
+      folder: publicId.includes("/") ? publicId.slice(0, publicId.lastIndexOf("/")) : "",
+      original_filename: filename ? path.basename(filename, path.extname(filename)) : "file",
+      api_key: "local",
+      ...(context ? { context: { custom: context } } : {}),
+      file,
+    } as unknown as LocalRecord;
+
+    this.records.set(this.key(resourceType, publicId), record);
+    await this.persist();
+    return this.present(record);
+  }
+
+  // ---------------- Read ----------------
+
+  async search(query: SearchQuery): Promise<SearchResult> {
+    await this.ensureLoaded();
+    if (query.expression?.trim()) {
+      throw new StorageError("Raw search expressions are not supported by the local backend.", 400);
+    }
+
+    const after = query.created_after ? Date.parse(query.created_after) : undefined;
+    const before = query.created_before ? Date.parse(query.created_before) : undefined;
+    const field = query.sort_by === "uploaded_at" ? "created_at" : query.sort_by ?? "created_at";
+    const direction = query.sort_direction === "asc" ? 1 : -1;
+
+    const matches = [...this.records.values()]
+      .filter((r) => !query.resource_type || r.resource_type === query.resource_type)
+      .filter((r) => (query.tags ?? []).every((t) => r.tags.includes(t)))
+      .filter((r) => query.folder === undefined || r.folder === query.folder)
+      .filter((r) => !query.format || r.format === query.format.toLowerCase())
+      .filter((r) => after === undefined || Date.parse(r.created_at) >= after)
+      .filter((r) => before === undefined || Date.parse(r.created_at) <= before)
+      .filter((r) => query.min_bytes === undefined || r.bytes >= query.min_bytes)
+      .filter((r) => query.max_bytes === undefined || r.bytes <= query.max_bytes)
+      .sort((a, b) => {
+        const x = (a as any)[field];
+        const y = (b as any)[field];
+        return (x < y ? -1 : x > y ? 1 : 0) * direction;
+      });
+
+    // Cursors are just base64-encoded offsets
+    const offset = query.next_cursor ? Number(Buffer.from(query.next_cursor, "base64").toString()) || 0 : 0;
+    const page = matches.slice(offset, offset + query.max_results);
+    const nextOffset = offset + page.length;
+
+    return {
+      expression: buildSearchExpression(query),
+      total_count: matches.length,
+      next_cursor: nextOffset < matches.length ? Buffer.from(String(nextOffset)).toString("base64") : null,
+      resources: page.map((r) => this.present(r)),
+    };
+  }
+
+  async getResource(publicId: string, resourceType: ResourceType) {
+    await this.ensureLoaded();
+    return this.present(this.require(publicId, resourceType));
+  }
+
+  async listResources(query: ListQuery): Promise<ListResult> {
+    await this.ensureLoaded();
+    const records =
+      "public_ids" in query
+        ? query.public_ids
+            .map((id) => this.records.get(this.key(query.resource_type, id)))
+            .filter((r): r is LocalRecord => Boolean(r))
+        : [...this.records.values()].filter(
+            (r) => r.resource_type === query.resource_type && r.public_id.startsWith(query.prefix)
+          );
+
+    return { resources: records.slice(0, 500).map((r) => this.present(r)) };
+  }
+
+  /** Folders only exist while they hold an asset (or a folder that does). */
+  async listFolders(parent: string) {
+    await this.ensureLoaded();
+    const prefix = parent ? `${parent}/` : "";
+    const folders = new Set<string>();
+    for (const { folder } of this.records.values()) {
+      if (!folder.startsWith(prefix) || folder === parent) continue;
+      folders.add(prefix + folder.slice(prefix.length).split("/")[0]);
+    }
+    return [...folders].sort();
+  }
+
+  // ---------------- Mutations ----------------
+
+  async destroy(query: ListQuery): Promise<DestroyResult> {
+    const { resources } = await this.listResources(query);
+    for (const r of resources) {
+      const key = this.key(r.resource_type, r.public_id);
+      await rm(this.records.get(key)!.file, { force: true });
+      this.records.delete(key);
+    }
+    await this.persist();
+    return { deleted: resources.map((r) => r.public_id), partial: false };
+  }
+
+  async rename(
+    fromPublicId: string,
+    toPublicId: string,
+    options: { resource_type: ResourceType; overwrite?: boolean }
+  ) {
+    await this.ensureLoaded();
+    assertSafePublicId(toPublicId);
+    const record = this.require(fromPublicId, options.resource_type);
+    const targetKey = this.key(options.resource_type, toPublicId);
+    const target = this.records.get(targetKey);
+
+    if (target && !options.overwrite) {
+      throw new StorageError(`Resource already exists - ${toPublicId}`, 409);
+    }
+    if (target) await rm(target.file, { force: true });
+
+    const file = this.filePath(options.resource_type, toPublicId, record.format || undefined);
+    await mkdir(path.dirname(file), { recursive: true });
+    await rename(record.file, file);
+
+    this.records.delete(this.key(options.resource_type, fromPublicId));
+    const moved = {
+      ...record,
+      public_id: toPublicId,
+      folder: toPublicId.includes("/") ? toPublicId.slice(0, toPublicId.lastIndexOf("/")) : "",
+      file,
+    } as LocalRecord;
+    this.records.set(targetKey, moved);
+    await this.persist();
+    return this.present(moved);
+  }
+
+  private async update(publicIds: string[], resourceType: ResourceType, fn: (r: LocalRecord) => void) {
+    await this.ensureLoaded();
+    for (const id of publicIds) {
+      const record = this.records.get(this.key(resourceType, id));
+      if (record) fn(record);
+    }
+    await this.persist();
+  }
+
+  async addTag(tag: string, publicIds: string[], resourceType: ResourceType) {
+    await this.update(publicIds, resourceType, (r) => {
+      if (!r.tags.includes(tag)) r.tags.push(tag);
+    });
+  }
+
+  async removeTag(tag: string, publicIds: string[], resourceType: ResourceType) {
+    await this.update(publicIds, resourceType, (r) => {
+      r.tags = r.tags.filter((t) => t !== tag);
+    });
+  }
+
+  async addContext(context: Record<string, string>, publicIds: string[], resourceType: ResourceType) {
+    await this.update(publicIds, resourceType, (r) => {
+      r.context = { custom: { ...((r.context as any)?.custom ?? {}), ...context } };
+    });
+  }
+
+  // ---------------- Delivery ----------------
+
+  url(publicId: string, options: UrlOptions = {}) {
+    const resourceType = options.resource_type ?? "image";
+    const record = this.records.get(this.key(resourceType, publicId));
+    const transformation = (options.transformation ?? [])
+      .map((c) => cloudinary.utils.generate_transformation_string({ ...c } as any))
+      .filter(Boolean)
+      .join("/");
+    const format = options.format ?? record?.format;
+
+    return [
+      this.baseUrl.replace(/\/+$/, ""),
+      resourceType,
+      "upload",
+      ...(transformation ? [transformation] : []),
+      `v${record?.version ?? 1}`,
+      format ? `${publicId}.${format}` : publicId,
+    ].join("/");
+  }
+
+  /** Nothing to generate: derived URLs resolve to the original file. */
+  async explicit(publicId: string, options: ExplicitOptions): Promise<ExplicitResult> {
+    await this.ensureLoaded();
+    this.require(publicId, options.resource_type);
+    return {
+      public_id: publicId,
+      status: "processed",
+      derived: options.eager.map((e) => ({
+        transformation: e.transformation
+          .map((c) => cloudinary.utils.generate_transformation_string({ ...c } as any))
+          .join("/"),
+        format: e.format,
+        url: this.url(publicId, { resource_type: options.resource_type, format: e.format, transformation: e.transformation }),
+      })),
+    };
+  }
+
+  /**
+   * No models run locally: results are canned, read from
+   * `root/analysis.json` keyed by public_id (or "*" for any asset), in the
+   * AssetAnalysis shape. Requested features without a canned result are
+   * reported as unavailable. Tags at or above the threshold are applied.
+   */
+  async analyze(publicId: string, resourceType: ResourceType, request: AnalysisRequest): Promise<AssetAnalysis> {
+    await this.ensureLoaded();
+    this.require(publicId, resourceType);
+    let stubs: Record<string, Partial<AssetAnalysis>> = {};
+    try {
+      stubs = JSON.parse(await readFile(path.join(this.root, "analysis.json"), "utf8"));
+    } catch (err: any) {
+      if (err?.code !== "ENOENT") throw err;
+    }
+    const stub = stubs[publicId] ?? stubs["*"] ?? {};
+
+    const analysis: AssetAnalysis = { public_id: publicId, resource_type: resourceType, unavailable: [] };
+    for (const feature of request.features) {
+      const field = ANALYSIS_FIELDS[feature];
+      if (stub[field] === undefined) {
+        analysis.unavailable.push({ feature, reason: "No canned result in analysis.json" });
+      } else {
+        (analysis as any)[field] = stub[field];
+      }
+    }
+
+    const threshold = request.auto_tag_threshold;
+    if (analysis.tags && threshold !== undefined) {
+      const confident = analysis.tags.filter((t) => t.confidence >= threshold).map((t) => t.tag);
+      await this.update([publicId], resourceType, (r) => {
+        r.tags = [...new Set([...r.tags, ...confident])];
+      });
+    }
+    return analysis;
+  }
+
+  /** Named transformations live in `root/transformations.json`. */
+  async saveNamedTransformation(
+    name: string,
+    transformation: TransformationComponent[],
+    options: { overwrite?: boolean } = {}
+  ): Promise<NamedTransformationResult> {
+    await this.ensureLoaded();
+    const file = path.join(this.root, "transformations.json");
+    const definition = transformation
+      .map((c) => cloudinary.utils.generate_transformation_string({ ...c } as any))
+      .join("/");
+
+    let created = true;
+    this.saving = this.saving.then(async () => {
+      let saved: Record<string, string> = {};
+      try {
+        saved = JSON.parse(await readFile(file, "utf8"));
+      } catch (err: any) {
+        if (err?.code !== "ENOENT") throw err;
+      }
+      if (name in saved && !options.overwrite) {
+        throw new StorageError(`Transformation "${name}" already exists`, 409);
+      }
+      created = !(name in saved);
+      saved[name] = definition;
+      await writeFile(`${file}.tmp`, JSON.stringify(saved, null, 2));
+      await rename(`${file}.tmp`, file);
+    });
+    try {
+      await this.saving;
+    } finally {
+      // Keep the write chain alive after a rejected save
+      this.saving = this.saving.catch(() => {});
+    }
+    return { name, transformation: definition, created };
+  }
+
+  /**
+   * Signed like Cloudinary's, with a secret of this process. The form posts to
+   * `<baseUrl>/<type>/upload`; unlike Cloudinary, the signature covers the
+   * type in the URL too.
+   */
+  signUpload(options: UploadApiOptions, ttlSeconds: number): SignedUpload {
+    const { timestamp, expires_at } = signatureWindow(ttlSeconds);
+    const resourceType = options.resource_type ?? "auto";
+    const fields = uploadFormFields(options, timestamp);
+    fields.signature = cloudinary.utils.api_sign_request({ ...fields, resource_type: resourceType }, this.uploadSecret);
+    fields.api_key = "local";
+    const url = `${this.baseUrl.replace(/\/+$/, "")}/${resourceType}/upload`;
+    return { url, fields, expires_at };
+  }
+
+  /**
+   * Store a file posted to a signUpload URL, after checking the resource
+   * type, the signature, its age and the signed `allowed_formats`.
+   */
+  async acceptSignedUpload(
+    resourceType: string,
+    fields: Record<string, string>,
+    file: { stream: Readable; size: number; filename?: string; mimeType?: string }
+  ): Promise<UploadApiResponse> {
+    if (!UPLOAD_RESOURCE_TYPES.includes(resourceType)) throw new StorageError(`Invalid resource_type: ${resourceType}`, 400);
+    const { signature = "", api_key: _, ...signed } = fields;
+    const expected = cloudinary.utils.api_sign_request({ ...signed, resource_type: resourceType }, this.uploadSecret);
+    const given = Buffer.from(signature);
+    if (given.length !== expected.length || !timingSafeEqual(given, Buffer.from(expected))) {
+      throw new StorageError("Invalid Signature", 401);
+    }
+    const age = Math.floor(Date.now() / 1000) - Number(signed.timestamp);
+    if (!(age <= SIGNATURE_MAX_AGE_SECONDS)) throw new StorageError("Stale request: the signature has expired", 400);
+
+    const ext = file.filename ? path.extname(file.filename).slice(1).toLowerCase() : "";
+    const format = (ext || (file.mimeType && MIME_FORMATS[file.mimeType]) || "").replace(/^jpeg$/, "jpg");
+    const allowed = toList(signed.allowed_formats).map((f) => f.toLowerCase());
+    if (allowed.length && !allowed.includes(format)) {
+      throw new StorageError(`File format ${format || "unknown"} not allowed`, 400);
+    }
+
+    return this.upload(
+      { kind: "stream", ...file },
+      {
+        resource_type: resourceType as UploadApiOptions["resource_type"],
+        public_id: signed.public_id,
+        folder: signed.folder,
+        tags: signed.tags,
+        context: signed.context,
+        overwrite: signed.overwrite === undefined ? undefined : signed.overwrite === "1" || signed.overwrite === "true",
+      }
+    );
+  }
+
+  /** The original file; transformations are not applied. */
+  async download(publicId: string, options: UrlOptions = {}): Promise<Download> {
+    await this.ensureLoaded();
+    const record = this.require(publicId, options.resource_type ?? "image");
+    const mimeType = Object.entries(MIME_FORMATS).find(([, f]) => f === record.format)?.[0];
+    return { data: await readFile(record.file), mimeType: mimeType ?? "application/octet-stream" };
+  }
+
+  /**
+   * Map a path under LOCAL_ASSETS_ROUTE (`/<type>/upload/[tx/]v123/<id>.<ext>`)
+   * to the stored file, or undefined if there is no such asset.
+   */
+  async resolveDeliveryPath(urlPath: string): Promise<string | undefined> {
+    await this.ensureLoaded();
+    const [resourceType, kind, ...rest] = decodeURIComponent(urlPath).replace(/^\/+/, "").split("/");
+    if (kind !== "upload") return undefined;
+
+    const version = rest.findIndex((s) => /^v\d+$/.test(s));
+    const idWithExt = rest.slice(version + 1).join("/");
+    const withoutExt = idWithExt.replace(/\.[^./]+$/, "");
+
+    const record =
+      this.records.get(this.key(resourceType, withoutExt)) ?? this.records.get(this.key(resourceType, idWithExt));
+    return record?.file;
+  }
+}
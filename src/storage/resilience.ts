@@ -0,0 +1,279 @@
+import { StorageError, type StorageHealth } from "./types.js";
+
+/**
+ * Timeouts, retries, rate-limit waits, a concurrency limit and a circuit
+ * breaker for the outbound calls of one Cloudinary account.
+ *
+ * - Every attempt has a timeout; an upload gets a longer one.
+ * - Transient failures (5xx, timeouts, dropped connections) are retried with
+ *   exponential backoff and full jitter, but only for calls that are safe to
+ *   repeat. Rate-limited (420/429) and never-connected calls are retried for
+ *   everything except stream uploads, whose bytes cannot be replayed.
+ * - Admin API responses carry the rate-limit window; once it is used up,
+ *   calls wait for the reset (or fail fast when it is far away).
+ * - After `breakerThreshold` transient failures in a row the circuit opens
+ *   and calls fail at once for `breakerCooldownMs`; then one trial call
+ *   decides whether it closes again.
+ */
+
+export type ResilienceConfig = {
+  /** Per attempt, for everything but uploads. */
+  timeoutMs: number;
+  uploadTimeoutMs: number;
+  /** Retries after the first attempt. */
+  maxRetries: number;
+  baseDelayMs: number;
+  /** Longest backoff, and the longest wait for a rate-limit reset. */
+  maxDelayMs: number;
+  /** Calls in flight at once; the rest queue. */
+  maxConcurrency: number;
+  breakerThreshold: number;
+  breakerCooldownMs: number;
+};
+
+/**
+ * - `idempotent`: repeat on any transient failure
+ * - `unprocessed`: repeat only when the call certainly did not happen
+ *   (rate limited, or the connection was never made)
+ * - `none`: never repeat (the input is a stream)
+ */
+export type RetryPolicy = "idempotent" | "unprocessed" | "none";
+
+export type CallOptions = { retry: RetryPolicy; upload?: boolean };
+
+export const DEFAULT_RESILIENCE: ResilienceConfig = {
+  timeoutMs: 60_000,
+  uploadTimeoutMs: 600_000,
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  maxConcurrency: 6,
+  breakerThreshold: 5,
+  breakerCooldownMs: 30_000,
+};
+
+/** An attempt ran past its timeout. Named like the DOM's so it classifies as a timeout. */
+export class CallTimeoutError extends Error {
+  constructor(operation: string, ms: number) {
+    super(`Cloudinary ${operation} timed out after ${ms / 1000}s`);
+    this.name = "TimeoutError";
+  }
+}
+
+/** The circuit is open; `retry_at` is when the next trial call is allowed. */
+export class CircuitOpenError extends StorageError {
+  constructor(readonly retry_at: Date) {
+    super(`Cloudinary is failing; calls are paused until ${retry_at.toISOString()}`, 503);
+    this.name = "CircuitOpenError";
+  }
+}
+
+const UNPROCESSED_CODES = ["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN", "EHOSTUNREACH", "ENETUNREACH"];
+const TRANSIENT_CODES = ["ECONNRESET", "ETIMEDOUT", "ESOCKETTIMEDOUT", "EPIPE", "UND_ERR_SOCKET"];
+
+type Failure = "rate_limited" | "unprocessed" | "transient";
+
+/** How a failure may be retried, or undefined when it is final (4xx, bad input). */
+function failureKind(err: any): Failure | undefined {
+  if (err instanceof CircuitOpenError) return undefined;
+  const status = err?.http_code ?? err?.error?.http_code;
+  if (status === 420 || status === 429) return "rate_limited";
+  if (status === 408 || status === 499 || (typeof status === "number" && status >= 500)) return "transient";
+  if (err instanceof CallTimeoutError) return "transient";
+  const code = err?.code ?? err?.cause?.code ?? err?.error?.code;
+  if (UNPROCESSED_CODES.includes(code)) return "unprocessed";
+  if (TRANSIENT_CODES.includes(code)) return "transient";
+  return undefined;
+}
+
+function mayRetry(policy: RetryPolicy, failure: Failure) {
+  if (policy === "none") return false;
+  return policy === "idempotent" || failure !== "transient";
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function positiveNumber(value: string | undefined, fallback: number) {
+  const n = Number(value);
+  return value && Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+function nonNegativeInt(value: string | undefined, fallback: number) {
+  const n = Number(value);
+  return value && Number.isFinite(n) && n >= 0 ? Math.floor(n) : fallback;
+}
+
+export class Resilience {
+  readonly config: ResilienceConfig;
+
+  private active = 0;
+  private waiting: (() => void)[] = [];
+
+  private failures = 0;
+  private openUntil = 0;
+  private trialInFlight = false;
+  private lastError?: string;
+
+  private rateLimit?: { remaining: number; reset_at: Date };
+
+  constructor(config: Partial<ResilienceConfig> = {}) {
+    this.config = { ...DEFAULT_RESILIENCE, ...config };
+  }
+
+  /**
+   * CLOUDINARY_TIMEOUT_SECONDS (default 60), CLOUDINARY_UPLOAD_TIMEOUT_SECONDS
+   * (600), CLOUDINARY_MAX_RETRIES (3), CLOUDINARY_MAX_CONCURRENCY (6),
+   * CLOUDINARY_BREAKER_THRESHOLD (5), CLOUDINARY_BREAKER_COOLDOWN_SECONDS (30).
+   */
+  static configFromEnv(env: NodeJS.ProcessEnv = process.env): Partial<ResilienceConfig> {
+    return {
+      timeoutMs: positiveNumber(env.CLOUDINARY_TIMEOUT_SECONDS, 60) * 1000,
+      uploadTimeoutMs: positiveNumber(env.CLOUDINARY_UPLOAD_TIMEOUT_SECONDS, 600) * 1000,
+      maxRetries: nonNegativeInt(env.CLOUDINARY_MAX_RETRIES, 3),
+      maxConcurrency: Math.max(1, nonNegativeInt(env.CLOUDINARY_MAX_CONCURRENCY, 6)),
+      breakerThreshold: Math.max(1, nonNegativeInt(env.CLOUDINARY_BREAKER_THRESHOLD, 5)),
+      breakerCooldownMs: positiveNumber(env.CLOUDINARY_BREAKER_COOLDOWN_SECONDS, 30) * 1000,
+    };
+  }
+
+  /**
+   * Run one logical call. `fn` is invoked once per attempt and should stop
+   * its work when `signal` aborts (the attempt timed out).
+   */
+  async run<T>(operation: string, options: CallOptions, fn: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForRateLimit();
+      const trial = this.admit();
+      await this.acquire();
+      try {
+        const result = await this.attempt(operation, options, fn);
+        this.succeeded(result);
+        return result;
+      } catch (err) {
+        const failure = failureKind(err);
+        this.failed(failure, err, trial);
+        if (!failure || attempt >= this.config.maxRetries || !mayRetry(options.retry, failure)) throw err;
+        // Report the real failure rather than the open circuit on the next attempt
+        if (this.openUntil > Date.now()) throw err;
+      } finally {
+        if (trial) this.trialInFlight = false;
+        this.release();
+      }
+      await sleep(this.backoff(attempt));
+    }
+  }
+
+  /** For the health endpoint. */
+  health(): StorageHealth {
+    const now = Date.now();
+    const circuit = this.openUntil === 0 ? "closed" : now < this.openUntil ? "open" : "half_open";
+    return {
+      circuit,
+      consecutive_failures: this.failures,
+      retry_at: circuit === "open" ? new Date(this.openUntil).toISOString() : undefined,
+      last_error: this.lastError,
+      in_flight: this.active,
+      queued: this.waiting.length,
+      max_concurrency: this.config.maxConcurrency,
+      rate_limit: this.rateLimit && {
+        remaining: this.rateLimit.remaining,
+        reset_at: this.rateLimit.reset_at.toISOString(),
+      },
+    };
+  }
+
+  /** Throws while the circuit is open; returns true for the half-open trial call. */
+  private admit() {
+    if (this.openUntil === 0) return false;
+    if (Date.now() < this.openUntil || this.trialInFlight) {
+      throw new CircuitOpenError(new Date(Math.max(this.openUntil, Date.now() + 1000)));
+    }
+    this.trialInFlight = true;
+    return true;
+  }
+
+  private async attempt<T>(operation: string, options: CallOptions, fn: (signal: AbortSignal) => Promise<T>) {
+    const ms = options.upload ? this.config.uploadTimeoutMs : this.config.timeoutMs;
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new CallTimeoutError(operation, ms));
+      }, ms);
+    });
+    try {
+      return await Promise.race([fn(controller.signal), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private succeeded(result: unknown) {
+    this.failures = 0;
+    this.openUntil = 0;
+    this.lastError = undefined;
+
+    const r = result as { rate_limit_remaining?: number; rate_limit_reset_at?: Date } | undefined;
+    if (typeof r?.rate_limit_remaining === "number" && !Number.isNaN(r.rate_limit_remaining)) {
+      const reset_at = r.rate_limit_reset_at instanceof Date ? r.rate_limit_reset_at : new Date(NaN);
+      if (!Number.isNaN(reset_at.getTime())) this.rateLimit = { remaining: r.rate_limit_remaining, reset_at };
+    }
+  }
+
+  private failed(failure: Failure | undefined, err: any, trial: boolean) {
+    if (failure === "rate_limited") {
+      // A 420 carries no reset header; assume the window we last saw is spent
+      if (this.rateLimit) this.rateLimit.remaining = 0;
+      return;
+    }
+    if (!failure) {
+      // The service answered, so it is up
+      if (trial) this.openUntil = 0;
+      this.failures = 0;
+      return;
+    }
+    this.failures++;
+    this.lastError = err instanceof Error ? err.message : String(err?.error?.message ?? err?.message ?? err);
+    if (trial || this.failures >= this.config.breakerThreshold) {
+      this.openUntil = Date.now() + this.config.breakerCooldownMs;
+    }
+  }
+
+  private async waitForRateLimit() {
+    if (!this.rateLimit || this.rateLimit.remaining > 0) return;
+    const wait = this.rateLimit.reset_at.getTime() - Date.now();
+    if (wait <= 0) {
+      this.rateLimit = undefined;
+      return;
+    }
+    if (wait > this.config.maxDelayMs) {
+      throw new StorageError(
+        `Cloudinary rate limit reached; it resets at ${this.rateLimit.reset_at.toISOString()}`,
+        420
+      );
+    }
+    await sleep(wait + Math.random() * 1000);
+  }
+
+  /** Full jitter: anywhere from 0 to the exponential cap. */
+  private backoff(attempt: number) {
+    const cap = Math.min(this.config.maxDelayMs, this.config.baseDelayMs * 2 ** attempt);
+    return Math.random() * cap;
+  }
+
+  private async acquire() {
+    if (this.active < this.config.maxConcurrency) {
+      this.active++;
+      return;
+    }
+    // The releasing call hands its slot over, so `active` stays the same
+    await new Promise<void>((resolve) => this.waiting.push(resolve));
+  }
+
+  private release() {
+    const next = this.waiting.shift();
+    if (next) next();
+    else this.active--;
+  }
+}
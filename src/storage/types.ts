@@ -0,0 +1,212 @@
+import type { Readable } from "node:stream";
+import type { UploadApiOptions, UploadApiResponse } from "cloudinary";
+
+export type ResourceType = "image" | "video" | "raw";
+
+/**
+ * What to upload: a remote URL the backend fetches itself, or a byte stream.
+ */
+export type UploadSource =
+  /** `fetch` is used by backends that download the URL themselves (see UploadPolicy.fetch). */
+  | { kind: "url"; url: string; fetch?: (url: string) => Promise<Response> }
+  | { kind: "stream"; stream: Readable; size: number; filename?: string; mimeType?: string };
+
+/**
+ * Structured search filters. Backends translate them into their own query
+ * language; `expression` is Cloudinary syntax and may be unsupported elsewhere.
+ */
+export type SearchQuery = {
+  expression?: string;
+  resource_type?: ResourceType;
+  tags?: string[];
+  folder?: string;
+  format?: string;
+  created_after?: string;
+  created_before?: string;
+  min_bytes?: number;
+  max_bytes?: number;
+  sort_by?: "created_at" | "uploaded_at" | "public_id" | "bytes";
+  sort_direction?: "asc" | "desc";
+  max_results: number;
+  next_cursor?: string;
+};
+
+export type SearchResult = {
+  expression: string;
+  total_count: number;
+  next_cursor: string | null;
+  resources: UploadApiResponse[];
+};
+
+export type ListQuery = { resource_type: ResourceType } & (
+  | { public_ids: string[] }
+  | { prefix: string }
+);
+
+export type ListResult = { resources: UploadApiResponse[]; next_cursor?: string };
+
+export type DestroyResult = { deleted: string[]; partial: boolean };
+
+/**
+ * One SDK-style transformation component, e.g. `{ width: 200, crop: "fill" }`.
+ */
+export type TransformationComponent = Record<string, unknown>;
+
+export type UrlOptions = {
+  resource_type?: "image" | "video" | "raw";
+  format?: string;
+  transformation?: TransformationComponent[];
+};
+
+export type Download = { data: Buffer; mimeType: string };
+
+export type NamedTransformationResult = {
+  name: string;
+  /** The stored transformation string, e.g. `c_fill,h_200,w_200/e_sepia`. */
+  transformation: string;
+  /** False when an existing transformation was overwritten. */
+  created: boolean;
+};
+
+/** One derived version to generate ahead of delivery. */
+export type EagerRequest = { transformation: TransformationComponent[]; format?: string };
+
+export type ExplicitOptions = {
+  resource_type: ResourceType;
+  eager: EagerRequest[];
+  /** Return immediately and generate in the background. */
+  eager_async?: boolean;
+  notification_url?: string;
+};
+
+export type ExplicitResult = {
+  public_id: string;
+  /** "pending" while async derivations are still being generated. */
+  status: "pending" | "processed";
+  batch_id?: string;
+  derived: { transformation: string; format?: string; url: string }[];
+};
+
+/**
+ * What `analyze` can look for. On Cloudinary, `tags`, `caption`, `ocr` and
+ * `moderation` are paid add-ons that must be enabled on the account.
+ */
+export const ANALYSIS_FEATURES = ["tags", "caption", "ocr", "moderation", "colors", "faces"] as const;
+export type AnalysisFeature = (typeof ANALYSIS_FEATURES)[number];
+
+export type AnalysisRequest = {
+  features: AnalysisFeature[];
+  /** Tags at or above this confidence (0-1) are added to the asset. */
+  auto_tag_threshold?: number;
+};
+
+/**
+ * Normalized analysis results. A feature that was requested but could not
+ * run (add-on not enabled, unsupported type, ...) is listed in `unavailable`
+ * instead of failing the whole call.
+ */
+export type AssetAnalysis = {
+  public_id: string;
+  resource_type: ResourceType;
+  tags?: { tag: string; confidence: number }[];
+  /** Short description, suitable as alt text. */
+  caption?: string;
+  ocr_text?: string;
+  moderation?: { kind: string; status: string }[];
+  colors?: { color: string; percent: number }[];
+  faces?: { x: number; y: number; width: number; height: number }[];
+  unavailable: { feature: AnalysisFeature; reason: string }[];
+};
+
+/**
+ * A signed form for uploading straight from a browser: POST
+ * multipart/form-data to `url` with `fields` and the file in `file`. The
+ * response is the backend's upload response (Cloudinary's shape).
+ */
+export type SignedUpload = {
+  url: string;
+  fields: Record<string, string>;
+  /** When the signature stops being accepted. */
+  expires_at: string;
+};
+
+/** State of a backend's outbound calls, for the HTTP server's health endpoint (see resilience.ts). */
+export type StorageHealth = {
+  circuit: "closed" | "open" | "half_open";
+  consecutive_failures: number;
+  /** When an open circuit lets the next trial call through. */
+  retry_at?: string;
+  last_error?: string;
+  in_flight: number;
+  queued: number;
+  max_concurrency: number;
+  /** The Admin API rate-limit window, as last reported. */
+  rate_limit?: { remaining: number; reset_at: string };
+};
+
+/**
+ * Everything CloudinaryServer needs from a media store. Results use
+ * Cloudinary's response shapes so tools behave the same on every backend.
+ */
+export interface StorageBackend {
+  readonly name: string;
+
+  upload(source: UploadSource, options: UploadApiOptions): Promise<UploadApiResponse>;
+
+  search(query: SearchQuery): Promise<SearchResult>;
+
+  getResource(publicId: string, resourceType: ResourceType): Promise<UploadApiResponse>;
+  listResources(query: ListQuery): Promise<ListResult>;
+  /** Full paths of the folders directly under `parent` ("" for the root). */
+  listFolders(parent: string): Promise<string[]>;
+
+  destroy(query: ListQuery): Promise<DestroyResult>;
+  rename(
+    fromPublicId: string,
+    toPublicId: string,
+    options: { resource_type: ResourceType; overwrite?: boolean }
+  ): Promise<UploadApiResponse>;
+
+  addTag(tag: string, publicIds: string[], resourceType: ResourceType): Promise<void>;
+  removeTag(tag: string, publicIds: string[], resourceType: ResourceType): Promise<void>;
+  addContext(context: Record<string, string>, publicIds: string[], resourceType: ResourceType): Promise<void>;
+
+  url(publicId: string, options?: UrlOptions): string;
+  /** Generate derived versions of an existing asset (e.g. transcodes). */
+  explicit(publicId: string, options: ExplicitOptions): Promise<ExplicitResult>;
+
+  /**
+   * Store a reusable named transformation (delivered as `t_<name>`). Fails
+   * with a 409 if it exists, unless `overwrite` is set.
+   */
+  saveNamedTransformation(
+    name: string,
+    transformation: TransformationComponent[],
+    options?: { overwrite?: boolean }
+  ): Promise<NamedTransformationResult>;
+
+  /** Run content analysis on an existing asset; see AssetAnalysis. */
+  analyze(publicId: string, resourceType: ResourceType, request: AnalysisRequest): Promise<AssetAnalysis>;
+
+  /**
+   * Sign upload `options` for a direct browser upload, accepted for
+   * `ttlSeconds` (at most SIGNATURE_MAX_AGE_SECONDS).
+   */
+  signUpload(options: UploadApiOptions, ttlSeconds: number): SignedUpload;
+
+  /** Fetch the delivered bytes (with transformations, where the backend applies them). */
+  download(publicId: string, options?: UrlOptions): Promise<Download>;
+
+  /** Backends that call a remote service report how those calls are going. */
+  health?(): StorageHealth;
+}
+
+/**
+ * Error with an HTTP status, mirroring the `http_code` Cloudinary errors carry.
+ */
+export class StorageError extends Error {
+  constructor(message: string, public http_code: number) {
+    super(message);
+    this.name = "StorageError";
+  }
+}
@@ -0,0 +1,144 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import {
+  createStorageBackend,
+  type CloudinaryAccount,
+  type StorageBackend,
+  type StorageHealth,
+} from "./storage/index.js";
+
+/**
+ * Cloudinary accounts served by one process, loaded from TENANTS_FILE:
+ *
+ * {
+ *   "default_tenant": "brand-a",
+ *   "tenants": {
+ *     "brand-a": { "cloud_name": "...", "api_key": "...", "api_secret": "..." },
+ *     "brand-b": { "cloud_name": "...", "api_key": "...", "api_secret_env": "BRAND_B_SECRET" }
+ *   }
+ * }
+ *
+ * Without TENANTS_FILE there is a single implicit tenant using the
+ * CLOUDINARY_* env vars. API clients list the tenants they may use in
+ * `tenants` (see auth.ts); a session picks one with the X-Cloudinary-Tenant
+ * header on `initialize`, or gets the client's first tenant.
+ */
+
+export type TenantDefinition = Partial<CloudinaryAccount> & {
+  description?: string;
+  /** Read the secret from this env var instead of the file. */
+  api_secret_env?: string;
+};
+
+export type TenantConfig = {
+  default_tenant?: string;
+  tenants: Record<string, TenantDefinition>;
+};
+
+/** Header a client sends on `initialize` to choose a tenant. */
+export const TENANT_HEADER = "x-cloudinary-tenant";
+
+const DEFAULT_TENANT = "default";
+
+/**
+ * Thrown when a session asks for a tenant it cannot use.
+ */
+export class TenantAccessError extends Error {
+  constructor(
+    message: string,
+    readonly http_code: 400 | 403
+  ) {
+    super(message);
+    this.name = "TenantAccessError";
+  }
+}
+
+export class TenantRegistry {
+  private accounts = new Map<string, CloudinaryAccount>();
+  private backends = new Map<string, StorageBackend>();
+  private defaultTenant?: string;
+
+  /** `config` undefined means the single implicit tenant. */
+  constructor(
+    private config?: TenantConfig,
+    private env: NodeJS.ProcessEnv = process.env
+  ) {
+    if (!config) {
+      this.defaultTenant = DEFAULT_TENANT;
+      return;
+    }
+
+    for (const [name, def] of Object.entries(config.tenants)) {
+      if (!/^[\w-]+$/.test(name)) throw new Error(`Tenant name "${name}" may only use letters, digits, _ and -`);
+      const api_secret = def.api_secret_env ? env[def.api_secret_env] : def.api_secret;
+      if (!def.cloud_name || !def.api_key || !api_secret) {
+        throw new Error(`Tenant "${name}" needs cloud_name, api_key and api_secret (or api_secret_env)`);
+      }
+      this.accounts.set(name, { cloud_name: def.cloud_name, api_key: def.api_key, api_secret });
+    }
+    if (config.default_tenant && !this.accounts.has(config.default_tenant)) {
+      throw new Error(`default_tenant "${config.default_tenant}" is not defined`);
+    }
+    this.defaultTenant = config.default_tenant ?? (this.accounts.size === 1 ? this.names()[0] : undefined);
+  }
+
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): TenantRegistry {
+    if (!env.TENANTS_FILE) return new TenantRegistry(undefined, env);
+    const raw = readFileSync(path.resolve(env.TENANTS_FILE), "utf8");
+    return new TenantRegistry(JSON.parse(raw) as TenantConfig, env);
+  }
+
+  /** Whether tenants come from TENANTS_FILE (and local storage is split per tenant). */
+  get isMultiTenant() {
+    return Boolean(this.config);
+  }
+
+  names() {
+    return this.config ? [...this.accounts.keys()] : [DEFAULT_TENANT];
+  }
+
+  /**
+   * The tenant a session should use, given who opened it and what it asked for.
+   * Authenticated clients are limited to their `tenants` list, or to the
+   * default tenant when they have none.
+   */
+  select(auth: AuthInfo | undefined, requested?: string): string {
+    const listed = auth?.extra?.tenants as string[] | undefined;
+    const restricted = Boolean(auth) && !listed?.includes("*");
+    const allowed = !restricted ? this.names() : (listed ?? (this.defaultTenant ? [this.defaultTenant] : []));
+    const chosen = requested || (listed && restricted ? allowed[0] : this.defaultTenant);
+
+    if (!chosen) {
+      throw new TenantAccessError(`Choose a tenant with the ${TENANT_HEADER} header. Available: ${allowed.join(", ") || "none"}`, 400);
+    }
+    if (!this.names().includes(chosen)) {
+      throw new TenantAccessError(`Unknown tenant "${chosen}"`, 400);
+    }
+    if (!allowed.includes(chosen)) {
+      throw new TenantAccessError(`Client "${auth?.clientId}" may not use tenant "${chosen}"`, 403);
+    }
+    return chosen;
+  }
+
+  /** The storage backend for a tenant, created once and shared by its sessions. */
+  storage(tenant: string): StorageBackend {
+    let backend = this.backends.get(tenant);
+    if (!backend) {
+      const account = this.accounts.get(tenant);
+      if (this.config && !account) throw new Error(`Unknown tenant "${tenant}"`);
+      backend = createStorageBackend(this.env, account && { name: tenant, account });
+      this.backends.set(tenant, backend);
+    }
+    return backend;
+  }
+
+  /** Health of each tenant's backend that has made calls so far and reports it. */
+  health(): Record<string, StorageHealth> {
+    const health: Record<string, StorageHealth> = {};
+    for (const [tenant, backend] of this.backends) {
+      if (backend.health) health[tenant] = backend.health();
+    }
+    return health;
+  }
+}
@@ -0,0 +1,353 @@
+import { v2 as cloudinary } from "cloudinary";
+import type { StorageBackend } from "./storage/index.js";
+
+/**
+ * Typed transformation steps for the `transform` tool.
+ * Each step becomes one (or, for overlays, two) chained URL components.
+ */
+
+export const CROP_MODES = [
+  "fill",
+  "lfill",
+  "fill_pad",
+  "fit",
+  "mfit",
+  "limit",
+  "pad",
+  "lpad",
+  "mpad",
+  "scale",
+  "crop",
+  "thumb",
+  "auto",
+] as const;
+
+export const GRAVITIES = [
+  "auto",
+  "auto:subject",
+  "face",
+  "faces",
+  "center",
+  "north",
+  "north_east",
+  "east",
+  "south_east",
+  "south",
+  "south_west",
+  "west",
+  "north_west",
+] as const;
+
+/** Effect name -> allowed numeric range for its optional value (null = no value). */
+export const EFFECTS: Record<string, [number, number] | null> = {
+  sepia: [1, 100],
+  grayscale: null,
+  blackwhite: [0, 100],
+  negate: null,
+  blur: [1, 2000],
+  blur_faces: [1, 2000],
+  pixelate: [1, 200],
+  pixelate_faces: [1, 200],
+  sharpen: [1, 2000],
+  unsharp_mask: [1, 2000],
+  vignette: [0, 100],
+  cartoonify: [0, 100],
+  oil_paint: [0, 100],
+  brightness: [-99, 100],
+  contrast: [-100, 100],
+  saturation: [-100, 100],
+  gamma: [-50, 150],
+  improve: null,
+  auto_contrast: null,
+  auto_color: null,
+  auto_brightness: null,
+  background_removal: null,
+};
+
+export const QUALITIES = ["auto", "auto:best", "auto:good", "auto:eco", "auto:low"] as const;
+export const FETCH_FORMATS = ["auto", "webp", "avif", "jpg", "png", "gif"] as const;
+
+export type TransformOverlay = {
+  public_id?: string;
+  text?: string;
+  font_family?: string;
+  font_size?: number;
+  color?: string;
+  width?: number;
+  opacity?: number;
+  gravity?: (typeof GRAVITIES)[number];
+  x?: number;
+  y?: number;
+};
+
+export type TransformStep = {
+  width?: number;
+  height?: number;
+  crop?: (typeof CROP_MODES)[number];
+  gravity?: (typeof GRAVITIES)[number];
+  aspect_ratio?: string;
+  zoom?: number;
+  effect?: string;
+  effect_value?: number;
+  radius?: number | "max";
+  angle?: number;
+  quality?: (typeof QUALITIES)[number] | number;
+  fetch_format?: (typeof FETCH_FORMATS)[number];
+  background?: string;
+  opacity?: number;
+  dpr?: number | "auto";
+  overlay?: TransformOverlay;
+};
+
+export type TransformArgs = {
+  public_id: string;
+  resource_type?: "image" | "video";
+  format?: string;
+  steps: TransformStep[];
+};
+
+export type TransformResult = {
+  public_id: string;
+  resource_type: "image" | "video";
+  transformation: string;
+  url: string;
+  steps: { index: number; transformation: string; description: string }[];
+};
+
+/**
+ * Thrown for invalid steps; `issues` lists every problem with its path.
+ */
+export class TransformValidationError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid transformation: ${issues.join("; ")}`);
+    this.name = "TransformValidationError";
+  }
+}
+
+const COLOR_RE = /^(#[0-9a-f]{3}|#[0-9a-f]{6}|rgb:[0-9a-f]{6}|[a-z]+)$/i;
+const ASPECT_RE = /^(\d+(\.\d+)?|\d+:\d+)$/;
+
+function isNum(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v);
+}
+
+function checkRange(issues: string[], path: string, v: unknown, min: number, max: number) {
+  if (v === undefined) return;
+  if (!isNum(v) || v < min || v > max) issues.push(`${path} must be a number between ${min} and ${max}`);
+}
+
+function checkEnum(issues: string[], path: string, v: unknown, allowed: readonly string[]) {
+  if (v === undefined) return;
+  if (typeof v !== "string" || !allowed.includes(v)) {
+    issues.push(`${path} must be one of: ${allowed.join(", ")}`);
+  }
+}
+
+function checkColor(issues: string[], path: string, v: unknown) {
+  if (v === undefined) return;
+  if (typeof v !== "string" || !COLOR_RE.test(v)) {
+    issues.push(`${path} must be a color name, #rgb, #rrggbb or rgb:rrggbb`);
+  }
+}
+
+function validateStep(step: TransformStep, path: string, issues: string[]) {
+  if (!step || typeof step !== "object") {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  if (!Object.keys(step).length) issues.push(`${path} is empty`);
+
+  checkRange(issues, `${path}.width`, step.width, 1, 10000);
+  checkRange(issues, `${path}.height`, step.height, 1, 10000);
+  checkEnum(issues, `${path}.crop`, step.crop, CROP_MODES);
+  checkEnum(issues, `${path}.gravity`, step.gravity, GRAVITIES);
+  checkRange(issues, `${path}.zoom`, step.zoom, 0.1, 10);
+  checkRange(issues, `${path}.angle`, step.angle, -360, 360);
+  checkRange(issues, `${path}.opacity`, step.opacity, 0, 100);
+  checkEnum(issues, `${path}.fetch_format`, step.fetch_format, FETCH_FORMATS);
+  checkColor(issues, `${path}.background`, step.background);
+
+  if (step.aspect_ratio !== undefined && !ASPECT_RE.test(String(step.aspect_ratio))) {
+    issues.push(`${path}.aspect_ratio must look like "16:9" or "1.5"`);
+  }
+  if (step.crop && step.width === undefined && step.height === undefined && !step.aspect_ratio) {
+    issues.push(`${path}.crop needs width, height or aspect_ratio`);
+  }
+  if (step.gravity && !step.crop) issues.push(`${path}.gravity requires crop`);
+
+  if (step.radius !== undefined && step.radius !== "max") {
+    checkRange(issues, `${path}.radius`, step.radius, 0, 2000);
+  }
+  if (step.dpr !== undefined && step.dpr !== "auto") checkRange(issues, `${path}.dpr`, step.dpr, 0.1, 5);
+  if (step.quality !== undefined && !isNum(step.quality)) {
+    checkEnum(issues, `${path}.quality`, step.quality, QUALITIES);
+  } else {
+    checkRange(issues, `${path}.quality`, step.quality, 1, 100);
+  }
+
+  if (step.effect !== undefined) {
+    if (!(step.effect in EFFECTS)) {
+      issues.push(`${path}.effect must be one of: ${Object.keys(EFFECTS).join(", ")}`);
+    } else if (step.effect_value !== undefined) {
+      const range = EFFECTS[step.effect];
+      if (!range) issues.push(`${path}.effect_value is not supported for ${step.effect}`);
+      else checkRange(issues, `${path}.effect_value`, step.effect_value, range[0], range[1]);
+    }
+  } else if (step.effect_value !== undefined) {
+    issues.push(`${path}.effect_value requires effect`);
+  }
+
+  const o = step.overlay;
+  if (o !== undefined) {
+    const op = `${path}.overlay`;
+    if (!o || typeof o !== "object") {
+      issues.push(`${op} must be an object`);
+      return;
+    }
+    if (Boolean(o.public_id) === Boolean(o.text)) issues.push(`${op} needs exactly one of public_id or text`);
+    if (o.text !== undefined && !o.font_family) issues.push(`${op}.font_family is required for text`);
+    checkRange(issues, `${op}.font_size`, o.font_size, 1, 1000);
+    checkRange(issues, `${op}.width`, o.width, 1, 10000);
+    checkRange(issues, `${op}.opacity`, o.opacity, 0, 100);
+    checkRange(issues, `${op}.x`, o.x, -10000, 10000);
+    checkRange(issues, `${op}.y`, o.y, -10000, 10000);
+    checkEnum(issues, `${op}.gravity`, o.gravity, GRAVITIES);
+    checkColor(issues, `${op}.color`, o.color);
+  }
+}
+
+/**
+ * Throws TransformValidationError listing every issue found.
+ */
+export function validateTransformArgs(args: TransformArgs) {
+  const issues: string[] = [];
+  if (!args || typeof args.public_id !== "string" || !args.public_id) issues.push("public_id is required");
+  if (args?.resource_type !== undefined) checkEnum(issues, "resource_type", args.resource_type, ["image", "video"]);
+  if (!Array.isArray(args?.steps) || !args.steps.length) {
+    issues.push("steps must be a non-empty array");
+  } else {
+    args.steps.forEach((step, i) => validateStep(step, `steps[${i}]`, issues));
+  }
+  if (issues.length) throw new TransformValidationError(issues);
+}
+
+/** SDK transformation components for one step (overlays need a layer_apply component). */
+function toComponents(step: TransformStep): Record<string, unknown>[] {
+  const main: Record<string, unknown> = {};
+  if (step.width !== undefined) main.width = step.width;
+  if (step.height !== undefined) main.height = step.height;
+  if (step.crop) main.crop = step.crop;
+  if (step.gravity) main.gravity = step.gravity;
+  if (step.aspect_ratio) main.aspect_ratio = step.aspect_ratio;
+  if (step.zoom !== undefined) main.zoom = step.zoom;
+  if (step.effect) main.effect = step.effect_value !== undefined ? `${step.effect}:${step.effect_value}` : step.effect;
+  if (step.radius !== undefined) main.radius = step.radius;
+  if (step.angle !== undefined) main.angle = step.angle;
+  if (step.quality !== undefined) main.quality = step.quality;
+  if (step.fetch_format) main.fetch_format = step.fetch_format;
+  if (step.background) main.background = step.background.replace(/^#/, "rgb:");
+  if (step.opacity !== undefined) main.opacity = step.opacity;
+  if (step.dpr !== undefined) main.dpr = step.dpr;
+
+  const components = Object.keys(main).length ? [main] : [];
+
+  const o = step.overlay;
+  if (o) {
+    const layer: Record<string, unknown> = {
+      overlay: o.text
+        ? { font_family: o.font_family, font_size: o.font_size ?? 40, text: o.text }
+        : o.public_id!.replace(/\//g, ":"),
+    };
+    if (o.color) layer.color = o.color.replace(/^#/, "rgb:");
+    if (o.width !== undefined) layer.width = o.width;
+    if (o.opacity !== undefined) layer.opacity = o.opacity;
+
+    const apply: Record<string, unknown> = { flags: "layer_apply" };
+    if (o.gravity) apply.gravity = o.gravity;
+    if (o.x !== undefined) apply.x = o.x;
+    if (o.y !== undefined) apply.y = o.y;
+
+    components.push(layer, apply);
+  }
+  return components;
+}
+
+/**
+ * Flatten steps into the SDK transformation chain (e.g. for eager transformations).
+ */
+export function compileSteps(steps: TransformStep[]): Record<string, unknown>[] {
+  return steps.flatMap(toComponents);
+}
+
+/** Human-readable summary of one step. */
+export function describeStep(step: TransformStep): string {
+  const parts: string[] = [];
+  if (step.width !== undefined || step.height !== undefined || step.aspect_ratio) {
+    const size = `${step.width ?? "auto"}×${step.height ?? "auto"}`;
+    parts.push(
+      `Resize to ${size}` +
+        (step.aspect_ratio ? ` (aspect ${step.aspect_ratio})` : "") +
+        (step.crop ? ` using ${step.crop}` : "") +
+        (step.gravity ? `, gravity ${step.gravity}` : "")
+    );
+  }
+  if (step.zoom !== undefined) parts.push(`zoom ${step.zoom}`);
+  if (step.effect) parts.push(`${step.effect} effect${step.effect_value !== undefined ? ` (${step.effect_value})` : ""}`);
+  if (step.radius !== undefined) parts.push(step.radius === "max" ? "circular crop" : `rounded corners (${step.radius})`);
+  if (step.angle !== undefined) parts.push(`rotate ${step.angle}°`);
+  if (step.quality !== undefined) parts.push(`quality ${step.quality}`);
+  if (step.fetch_format) parts.push(`format ${step.fetch_format}`);
+  if (step.background) parts.push(`background ${step.background}`);
+  if (step.opacity !== undefined) parts.push(`opacity ${step.opacity}%`);
+  if (step.dpr !== undefined) parts.push(`DPR ${step.dpr}`);
+  if (step.overlay) {
+    const o = step.overlay;
+    parts.push(
+      (o.text ? `text overlay "${o.text}"` : `image overlay ${o.public_id}`) + (o.gravity ? ` at ${o.gravity}` : "")
+    );
+  }
+  return parts.join(", ");
+}
+
+/**
+ * Validate the steps and build the delivery URL with the storage backend.
+ */
+export function buildTransformation(args: TransformArgs, storage: Pick<StorageBackend, "url">): TransformResult {
+  validateTransformArgs(args);
+
+  const resourceType = args.resource_type ?? "image";
+  const components = args.steps.map(toComponents);
+
+  const steps = args.steps.map((step, index) => ({
+    index,
+    // generate_transformation_string is pure (no account config) but mutates its input, so pass copies
+    transformation: components[index]
+      .map((c) => cloudinary.utils.generate_transformation_string({ ...c } as any))
+      .join("/"),
+    description: describeStep(step),
+  }));
+
+  const url = storage.url(args.public_id, {
+    resource_type: resourceType,
+    format: args.format,
+    transformation: compileSteps(args.steps),
+  });
+
+  return {
+    public_id: args.public_id,
+    resource_type: resourceType,
+    transformation: steps.map((s) => s.transformation).join("/"),
+    url,
+    steps,
+  };
+}
+
+/**
+ * Example transformations shown in the upload UI.
+ */
+export const TRANSFORM_PRESETS: { label: string; steps: TransformStep[] }[] = [
+  { label: "Resized (200x200)", steps: [{ width: 200, height: 200, crop: "fill" }] },
+  { label: "Sepia Effect", steps: [{ effect: "sepia" }] },
+  { label: "Circular Crop", steps: [{ width: 200, height: 200, crop: "fill", radius: "max" }] },
+  { label: "Blur Effect", steps: [{ effect: "blur", effect_value: 300 }] },
+];
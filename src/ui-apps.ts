@@ -0,0 +1,104 @@
+import { readFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+
+/**
+ * MCP Apps UI resources. Each is a self-contained HTML bundle built from
+ * src/ui/apps by `npm run build:ui` (scripts/build-ui.mjs) into dist/ui. The
+ * bundles hydrate from tool results, so the HTML is the same for every call
+ * and is read once per process.
+ */
+
+export const UI_MIME_TYPE = "text/html;profile=mcp-app";
+
+export const UPLOAD_UI_URI = "ui://cloudinary/upload-v5";
+export const DEMO_UI_URI = "ui://cloudinary/demo";
+export const GALLERY_UI_URI = "ui://cloudinary/gallery";
+export const EDITOR_UI_URI = "ui://cloudinary/transform-editor";
+export const LIBRARY_UI_URI = "ui://cloudinary/library";
+export const DIRECT_UPLOAD_UI_URI = "ui://cloudinary/direct-upload";
+
+export type UiApp = {
+  uri: string;
+  name: string;
+  description: string;
+  /** File name in dist/ui, without `.html`. */
+  bundle: string;
+  /**
+   * Which CSP lists get the delivery domains (Cloudinary's CDN and, with
+   * local storage, this server): `resources` for images and video,
+   * `connect` for fetch/XHR, which also gets Cloudinary's upload API. Apps
+   * that load nothing get neither.
+   */
+  csp: { resources?: boolean; connect?: boolean };
+};
+
+export const UI_APPS: UiApp[] = [
+  {
+    uri: UPLOAD_UI_URI,
+    name: "Cloudinary Upload UI",
+    description: "Deterministic MCP App UI for showing the latest upload",
+    bundle: "upload",
+    csp: { resources: true },
+  },
+  {
+    uri: GALLERY_UI_URI,
+    name: "Cloudinary Gallery UI",
+    description: "Deterministic MCP App UI for search results and batch upload summaries",
+    bundle: "gallery",
+    csp: { resources: true },
+  },
+  {
+    uri: LIBRARY_UI_URI,
+    name: "Cloudinary Library UI",
+    description: "MCP App UI for browsing, selecting and managing assets by folder and tag",
+    bundle: "library",
+    csp: { resources: true },
+  },
+  {
+    uri: DIRECT_UPLOAD_UI_URI,
+    name: "Cloudinary Direct Upload",
+    description: "Drag-and-drop MCP App UI that uploads files from the browser straight to Cloudinary with a signed upload",
+    bundle: "direct-upload",
+    csp: { resources: true, connect: true },
+  },
+  {
+    uri: EDITOR_UI_URI,
+    name: "Cloudinary Transformation Editor",
+    description: "Interactive MCP App UI for building a transformation with live preview",
+    bundle: "editor",
+    csp: { resources: true },
+  },
+  {
+    uri: DEMO_UI_URI,
+    name: "Cloudinary Demo UI",
+    description: "Sanity-check MCP App UI",
+    bundle: "demo",
+    csp: {},
+  },
+];
+
+// Same place from src/ (tsx) and dist/ (compiled): <package>/dist/ui
+const BUNDLE_DIR = fileURLToPath(new URL("../dist/ui/", import.meta.url));
+
+const bundles = new Map<string, string>();
+
+/** The built HTML of an app. Throws if `npm run build:ui` has not run. */
+export function loadUiBundle(app: UiApp): string {
+  let html = bundles.get(app.bundle);
+  if (html === undefined) {
+    try {
+      html = readFileSync(`${BUNDLE_DIR}${app.bundle}.html`, "utf8");
+    } catch (err: any) {
+      if (err?.code === "ENOENT") {
+        throw new Error(`UI bundle "${app.bundle}" is missing from ${BUNDLE_DIR}; run \`npm run build:ui\``);
+      }
+      throw err;
+    }
+    bundles.set(app.bundle, html);
+  }
+  return html;
+}
+
+export function findUiApp(uri: string) {
+  return UI_APPS.find((app) => app.uri === uri);
+}
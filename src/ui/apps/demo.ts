@@ -0,0 +1,11 @@
+import { McpAppClient } from "../runtime/client.js";
+import { byId } from "../runtime/dom.js";
+
+// Sanity check: if this renders and the button posts a message, resources/read and ui/message work
+const mcp = new McpAppClient({ name: "cloudinary-demo", version: "1.0.0" });
+
+byId("btn").addEventListener("click", async () => {
+  await mcp.sendMessage("hi from the Cloudinary MCP App demo 👋");
+});
+
+mcp.connect().catch(console.error);
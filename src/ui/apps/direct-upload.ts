@@ -0,0 +1,284 @@
+import { McpAppClient, ToolCallError, type ToolErrorInfo } from "../runtime/client.js";
+import { bindCopyButtons, byId, errorMessage, esc, show, thumbUrl } from "../runtime/dom.js";
+import { formatBytes, formatDate } from "../runtime/format.js";
+
+/**
+ * Drag-and-drop uploads straight from this iframe to Cloudinary. Hydrates from
+ * sign_upload's result (structuredContent.direct_upload): each file is posted
+ * with the signed form fields, then reported with complete_direct_upload so
+ * the server can check it and tell other sessions. A signature names one
+ * asset, so each further file, like a signature close to expiry, gets a new
+ * one by calling sign_upload again with the same arguments.
+ * Finished uploads are summarized into the model's context.
+ */
+
+type DirectUpload = {
+  upload_id: string;
+  url: string;
+  fields: Record<string, string>;
+  expires_at: string;
+  public_id: string;
+  resource_type: string;
+  folder?: string | null;
+  max_bytes?: number | null;
+  allowed_formats?: string[];
+};
+
+type Asset = {
+  public_id: string;
+  format?: string;
+  resource_type?: string;
+  created_at?: string;
+  bytes?: number;
+  secure_url?: string;
+};
+
+type Entry = {
+  file: File;
+  status: "queued" | "uploading" | "checking" | "done" | "failed";
+  /** 0–1 while uploading. */
+  progress: number;
+  asset?: Asset;
+  error?: string;
+};
+
+/** Re-sign when less than this is left, so an upload does not outlive its signature. */
+const RESIGN_MARGIN_MS = 60_000;
+
+let signature: DirectUpload | null = null;
+/** Whether a file was posted with `signature`, which then needs replacing. */
+let signatureUsed = false;
+/** sign_upload's arguments, for re-signing. */
+let signArgs: Record<string, unknown> = {};
+const entries: Entry[] = [];
+let running = false;
+
+function extensionOf(name: string) {
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? name.slice(dot + 1).toLowerCase().replace(/^jpeg$/, "jpg") : "";
+}
+
+/** Re-signing a caller-chosen public_id would overwrite the same asset, so it takes one file. */
+function singleFile() {
+  return Boolean(signArgs.public_id);
+}
+
+function renderHeader() {
+  const locale = mcp.hostContext.locale;
+  const zone = byId("dropzone");
+  const input = byId<HTMLInputElement>("fileInput");
+  const used = singleFile() && entries.some((e) => e.status !== "failed");
+  zone.classList.toggle("disabled", !signature || used);
+  input.multiple = !singleFile();
+  if (!signature) return;
+
+  const target = signature.folder ? `folder ${signature.folder}` : "the media library";
+  byId("subtitle").textContent = `Uploading to ${target} · signature valid until ${formatDate(signature.expires_at, locale)}`;
+  const limits = [
+    signature.resource_type !== "auto" ? `${signature.resource_type} only` : "",
+    signature.allowed_formats?.length ? `formats: ${signature.allowed_formats.join(", ")}` : "",
+    signature.max_bytes ? `up to ${formatBytes(signature.max_bytes, locale)} each` : "",
+    singleFile() ? `one file, saved as ${signature.public_id}` : "",
+  ].filter(Boolean);
+  byId("limits").textContent = limits.join(" · ");
+}
+
+function renderEntry(entry: Entry) {
+  const locale = mcp.hostContext.locale;
+  const asset = entry.asset;
+  const thumb = asset ? thumbUrl(asset) : "";
+  const status =
+    entry.status === "queued"
+      ? "Waiting…"
+      : entry.status === "uploading"
+        ? `Uploading… ${Math.round(entry.progress * 100)}%`
+        : entry.status === "checking"
+          ? "Finishing…"
+          : entry.status === "done" && asset
+            ? `${asset.public_id} · ${formatBytes(asset.bytes, locale)}`
+            : "";
+  return (
+    `<li class="file ${entry.status}">` +
+    `<div class="thumb">${thumb ? `<img src="${esc(thumb)}" alt="" />` : entry.status === "failed" ? "⚠️" : "📄"}</div>` +
+    '<div class="info">' +
+    `<div class="name">${esc(entry.file.name)}</div>` +
+    (status ? `<div class="status">${esc(status)}</div>` : "") +
+    (entry.error ? `<div class="error">${esc(entry.error)}</div>` : "") +
+    (entry.status === "uploading"
+      ? `<div class="progress-track"><div class="progress-bar" style="width:${Math.round(entry.progress * 100)}%"></div></div>`
+      : "") +
+    "</div>" +
+    (asset?.secure_url ? `<button class="copy-btn" data-copy="${esc(asset.secure_url)}">Copy URL</button>` : "") +
+    "</li>"
+  );
+}
+
+function render() {
+  renderHeader();
+  const list = byId("files");
+  list.innerHTML = entries.map(renderEntry).join("");
+  bindCopyButtons(list);
+  show(byId("actions"), entries.some((e) => e.status === "done"), "flex");
+  mcp.reportSize();
+}
+
+function renderError(error: ToolErrorInfo) {
+  byId("title").textContent = "⚠️ Cannot Upload";
+  byId("subtitle").textContent = error.message + (error.field ? ` (${error.field})` : "");
+}
+
+/** The current signature, or a new one when it was used or is about to expire. */
+async function freshSignature(): Promise<DirectUpload> {
+  if (signature && !signatureUsed && Date.parse(signature.expires_at) - Date.now() > RESIGN_MARGIN_MS) return signature;
+  const result = await mcp.callTool<{ direct_upload?: DirectUpload }>("sign_upload", signArgs);
+  if (!result.structuredContent?.direct_upload) throw new Error("sign_upload returned no signature");
+  signature = result.structuredContent.direct_upload;
+  signatureUsed = false;
+  return signature;
+}
+
+/** Checks the server would reject anyway, made before any bytes are sent. */
+function precheck(file: File, sig: DirectUpload): string | undefined {
+  if (sig.max_bytes && file.size > sig.max_bytes) {
+    return `Too large: ${formatBytes(file.size, mcp.hostContext.locale)}, the limit is ${formatBytes(sig.max_bytes, mcp.hostContext.locale)}.`;
+  }
+  const allowed = sig.allowed_formats ?? [];
+  if (allowed.length && !allowed.includes(extensionOf(file.name))) return `Only ${allowed.join(", ")} files are allowed.`;
+  return undefined;
+}
+
+/** XHR rather than fetch, for upload progress. Resolves with the storage's upload response. */
+function post(sig: DirectUpload, file: File, onProgress: (fraction: number) => void): Promise<Asset> {
+  const form = new FormData();
+  for (const [key, value] of Object.entries(sig.fields)) form.append(key, value);
+  form.append("file", file);
+
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", sig.url);
+    xhr.responseType = "json";
+    xhr.upload.addEventListener("progress", (e) => e.lengthComputable && onProgress(e.loaded / e.total));
+    xhr.addEventListener("load", () => {
+      const body = xhr.response as (Asset & { error?: { message?: string } }) | null;
+      if (xhr.status >= 200 && xhr.status < 300 && body?.public_id) resolve(body);
+      else reject(new Error(body?.error?.message || `Upload failed (HTTP ${xhr.status})`));
+    });
+    xhr.addEventListener("error", () => reject(new Error("Upload failed: network error")));
+    xhr.send(form);
+  });
+}
+
+async function uploadEntry(entry: Entry) {
+  try {
+    const sig = await freshSignature();
+    const problem = precheck(entry.file, sig);
+    if (problem) throw new Error(problem);
+
+    entry.status = "uploading";
+    signatureUsed = true;
+    render();
+    const uploaded = await post(sig, entry.file, (fraction) => {
+      entry.progress = fraction;
+      render();
+    });
+
+    entry.status = "checking";
+    render();
+    const result = await mcp.callTool<{ upload?: Asset }>("complete_direct_upload", {
+      upload_id: sig.upload_id,
+      public_id: uploaded.public_id,
+      resource_type: uploaded.resource_type,
+    });
+    entry.asset = result.structuredContent?.upload ?? uploaded;
+    entry.status = "done";
+  } catch (err) {
+    entry.status = "failed";
+    entry.error = err instanceof ToolCallError && err.details ? err.details.message : errorMessage(err);
+  }
+  render();
+}
+
+/** One upload at a time, in the order files were added. */
+async function drain() {
+  if (running) return;
+  running = true;
+  for (let next = entries.find((e) => e.status === "queued"); next; next = entries.find((e) => e.status === "queued")) {
+    await uploadEntry(next);
+  }
+  running = false;
+  await reportToModel();
+}
+
+function summary() {
+  const done = entries.filter((e) => e.status === "done" && e.asset);
+  const failed = entries.filter((e) => e.status === "failed");
+  const lines = done.map(
+    (e) => `- ${e.asset!.public_id} (${e.asset!.resource_type ?? "asset"}, ${e.asset!.bytes ?? "?"} bytes): ${e.asset!.secure_url ?? ""}`
+  );
+  if (failed.length) lines.push(`Failed: ${failed.map((e) => `${e.file.name} (${e.error})`).join("; ")}`);
+  return `Uploaded ${done.length} file(s) to Cloudinary directly from the upload app:\n${lines.join("\n")}`;
+}
+
+/** Hosts without ui/update-model-context still have the "Send to chat" button. */
+async function reportToModel() {
+  if (!entries.some((e) => e.status === "done")) return;
+  try {
+    await mcp.updateModelContext(summary());
+  } catch (err) {
+    console.warn(`Model context update failed: ${errorMessage(err)}`);
+  }
+}
+
+function addFiles(files: FileList | null) {
+  if (!files?.length || !signature) return;
+  const chosen = singleFile() ? [files[0]] : Array.from(files);
+  for (const file of chosen) entries.push({ file, status: "queued", progress: 0 });
+  render();
+  drain();
+}
+
+const mcp = new McpAppClient({ name: "cloudinary-direct-upload", version: "1.0.0" });
+
+mcp.onToolInput((args) => {
+  signArgs = args;
+});
+
+mcp.onToolResult<{ direct_upload?: DirectUpload; error?: ToolErrorInfo }>((sc, result) => {
+  if (sc.error) {
+    renderError(sc.error);
+    mcp.reportSize();
+    return;
+  }
+  if (!sc.direct_upload) {
+    console.log("tool-result received but no signature found:", result);
+    return;
+  }
+  signature = sc.direct_upload;
+  signatureUsed = false;
+  render();
+});
+
+mcp.onHostContextChanged(() => render());
+
+const zone = byId("dropzone");
+zone.addEventListener("dragover", (e) => {
+  e.preventDefault();
+  zone.classList.add("over");
+});
+zone.addEventListener("dragleave", () => zone.classList.remove("over"));
+zone.addEventListener("drop", (e) => {
+  e.preventDefault();
+  zone.classList.remove("over");
+  if (!zone.classList.contains("disabled")) addFiles(e.dataTransfer?.files ?? null);
+});
+byId<HTMLInputElement>("fileInput").addEventListener("change", (e) => {
+  const input = e.target as HTMLInputElement;
+  addFiles(input.files);
+  input.value = "";
+});
+
+byId("sendBtn").addEventListener("click", async () => {
+  await mcp.sendMessage(summary());
+});
+
+mcp.connect().catch(console.error);
@@ -0,0 +1,227 @@
+import { McpAppClient } from "../runtime/client.js";
+import { byId, errorMessage } from "../runtime/dom.js";
+
+/**
+ * Transformation editor for `open_transform_editor`. Previews go through the
+ * `transform` tool, so the server validates every combination; saving goes
+ * through `save_transformation`.
+ */
+
+type Step = {
+  width?: number;
+  height?: number;
+  crop?: string;
+  gravity?: string;
+  effect?: string;
+  effect_value?: number;
+  quality?: string;
+  fetch_format?: string;
+};
+
+type Editor = {
+  asset: { public_id: string; secure_url?: string; width?: number; height?: number };
+  options: {
+    crop_modes: string[];
+    gravities: string[];
+    /** Effect name -> [min, max] strength, or null when it takes none. */
+    effects: Record<string, [number, number] | null>;
+    qualities: string[];
+    formats: string[];
+  };
+  presets: { label: string; steps: Step[] }[];
+};
+
+type Transform = { url: string; transformation: string };
+
+const input = (id: string) => byId<HTMLInputElement>(id);
+const select = (id: string) => byId<HTMLSelectElement>(id);
+
+let editor: Editor | null = null;
+let current: { step: Step; url: string; transformation: string } | null = null;
+let previewTimer: ReturnType<typeof setTimeout> | undefined;
+let previewSeq = 0;
+
+function setStatus(text: string, isError = false) {
+  const status = byId("status");
+  status.textContent = text;
+  status.className = isError ? "status error" : "status";
+}
+
+function fillSelect(id: string, values: string[], emptyLabel: string) {
+  select(id).innerHTML =
+    `<option value="">${emptyLabel}</option>` + values.map((v) => `<option value="${v}">${v}</option>`).join("");
+}
+
+function load(e: Editor) {
+  editor = e;
+  const a = e.asset;
+  byId("subtitle").textContent = a.public_id + (a.width ? ` — ${a.width}×${a.height}` : "");
+  byId<HTMLImageElement>("before").src = a.secure_url || "";
+  fillSelect("crop", e.options.crop_modes, "(none)");
+  fillSelect("gravity", e.options.gravities, "(none)");
+  fillSelect("effect", Object.keys(e.options.effects), "(none)");
+  fillSelect("quality", e.options.qualities, "(original)");
+  fillSelect("format", e.options.formats, "(original)");
+
+  const presets = byId("presets");
+  presets.innerHTML = e.presets.map((p, i) => `<button class="chip" data-preset="${i}">${p.label}</button>`).join("");
+  presets.querySelectorAll<HTMLButtonElement>("[data-preset]").forEach((btn) => {
+    btn.addEventListener("click", () => applyStep(e.presets[Number(btn.dataset.preset)].steps[0]));
+  });
+  schedulePreview();
+}
+
+function applyStep(step: Step) {
+  input("width").value = String(step.width ?? "");
+  input("height").value = String(step.height ?? "");
+  select("crop").value = step.crop ?? "";
+  select("gravity").value = step.gravity ?? "";
+  select("effect").value = step.effect ?? "";
+  input("effectValue").value = String(step.effect_value ?? "");
+  select("quality").value = step.quality ?? "";
+  select("format").value = step.fetch_format ?? "";
+  onEffectChange();
+  schedulePreview();
+}
+
+/** The single transformation step the controls describe. */
+function currentStep(): Step {
+  const num = (id: string) => (input(id).value === "" ? undefined : Number(input(id).value));
+  const step: Step = {};
+  if (num("width")) step.width = num("width");
+  if (num("height")) step.height = num("height");
+  if (select("crop").value) step.crop = select("crop").value;
+  if (select("gravity").value) step.gravity = select("gravity").value;
+  if (select("effect").value) {
+    step.effect = select("effect").value;
+    if (num("effectValue") !== undefined) step.effect_value = num("effectValue");
+  }
+  if (select("quality").value) step.quality = select("quality").value;
+  if (select("format").value) step.fetch_format = select("format").value;
+  return step;
+}
+
+function onEffectChange() {
+  const range = editor?.options.effects[select("effect").value];
+  const strength = input("effectValue");
+  strength.disabled = !range;
+  if (range) {
+    strength.min = String(range[0]);
+    strength.max = String(range[1]);
+    strength.placeholder = `${range[0]}–${range[1]}`;
+  } else {
+    strength.value = "";
+    strength.placeholder = "";
+  }
+}
+
+function setActions(enabled: boolean) {
+  for (const id of ["sendUrl", "sendTransformation", "save"]) byId<HTMLButtonElement>(id).disabled = !enabled;
+}
+
+// Debounced: the server validates and builds the URL; previews that
+// finish out of order are dropped
+function schedulePreview() {
+  clearTimeout(previewTimer);
+  previewTimer = setTimeout(preview, 350);
+}
+
+async function preview() {
+  if (!editor) return;
+  const step = currentStep();
+  const original = editor.asset.secure_url || "";
+  if (!Object.keys(step).length) {
+    current = null;
+    byId<HTMLImageElement>("after").src = original;
+    byId("transformation").textContent = "—";
+    byId("url").textContent = original || "—";
+    setActions(false);
+    setStatus("Adjust a control to preview a transformation.");
+    return;
+  }
+
+  const seq = ++previewSeq;
+  setStatus("Updating preview…");
+  try {
+    const result = await mcp.callTool<{ transform?: Transform }>("transform", {
+      public_id: editor.asset.public_id,
+      steps: [step],
+    });
+    if (seq !== previewSeq) return;
+    const t = result.structuredContent?.transform;
+    if (!t) throw new Error("transform returned no URL");
+    current = { step, url: t.url, transformation: t.transformation };
+    byId<HTMLImageElement>("after").src = t.url;
+    byId("transformation").textContent = t.transformation;
+    byId("url").textContent = t.url;
+    setActions(true);
+    setStatus("");
+  } catch (err) {
+    if (seq !== previewSeq) return;
+    current = null;
+    setActions(false);
+    setStatus(errorMessage(err), true);
+  }
+}
+
+function updateSplit() {
+  const pct = Number(input("split").value);
+  byId("afterWrap").style.clipPath = `inset(0 0 0 ${pct}%)`;
+  byId("divider").style.left = `${pct}%`;
+}
+
+const mcp = new McpAppClient({ name: "cloudinary-transform-editor", version: "1.0.0" });
+
+mcp.onToolResult<{ editor?: Editor }>((sc, result) => {
+  if (sc.editor) load(sc.editor);
+  else console.log("tool-result received but no editor found:", result);
+  mcp.reportSize();
+});
+
+for (const id of ["width", "height", "crop", "gravity", "effectValue", "quality", "format"]) {
+  byId(id).addEventListener("input", schedulePreview);
+}
+select("effect").addEventListener("change", () => {
+  onEffectChange();
+  schedulePreview();
+});
+input("split").addEventListener("input", updateSplit);
+byId("after").addEventListener("load", () => mcp.reportSize());
+
+byId("sendUrl").addEventListener("click", async () => {
+  if (current) await mcp.sendMessage(`Here is the transformed image: ${current.url}`);
+});
+
+byId("sendTransformation").addEventListener("click", async () => {
+  if (current) {
+    await mcp.sendMessage(
+      `Use this Cloudinary transformation: ${current.transformation} (${JSON.stringify(current.step)})`
+    );
+  }
+});
+
+byId("save").addEventListener("click", async () => {
+  const name = input("name").value.trim();
+  if (!current || !editor || !name) {
+    setStatus("Enter a name to save the transformation.", true);
+    return;
+  }
+  const save = byId<HTMLButtonElement>("save");
+  save.disabled = true;
+  try {
+    const result = await mcp.callTool<{ named_transformation?: { usage: string } }>("save_transformation", {
+      name,
+      steps: [current.step],
+      public_id: editor.asset.public_id,
+      overwrite: input("overwrite").checked,
+    });
+    setStatus(`Saved as ${result.structuredContent?.named_transformation?.usage ?? `t_${name}`}.`);
+  } catch (err) {
+    setStatus(errorMessage(err), true);
+  } finally {
+    save.disabled = !current;
+  }
+});
+
+updateSplit();
+mcp.connect().catch(console.error);
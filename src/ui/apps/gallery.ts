@@ -0,0 +1,115 @@
+import { McpAppClient } from "../runtime/client.js";
+import { bindCopyButtons, byId, bytesToMb, esc, show, thumbUrl } from "../runtime/dom.js";
+
+/**
+ * Gallery for `search_assets` and `upload_batch` results
+ * (structuredContent.search / .batch).
+ */
+
+type Asset = {
+  public_id: string;
+  format?: string;
+  resource_type?: string;
+  created_at?: string;
+  bytes?: number;
+  secure_url?: string;
+  tags?: string[];
+};
+
+type Search = { assets?: Asset[]; total_count?: number; expression?: string; next_cursor?: string | null };
+
+type BatchItem = {
+  index: number;
+  input?: string;
+  status: "success" | "error";
+  upload?: Asset;
+  /** The existing asset was returned instead of uploading again. */
+  deduplicated?: boolean;
+  error?: string;
+};
+type Batch = { total?: number; succeeded?: number; failed?: number; deduplicated?: number; items?: BatchItem[] };
+
+function card(a: Asset, note?: string) {
+  const thumb = thumbUrl(a);
+  const tags = Array.isArray(a.tags) ? a.tags : [];
+  return (
+    '<div class="card">' +
+    '<div class="thumb">' +
+    (thumb
+      ? `<img src="${esc(thumb)}" alt="${esc(a.public_id)}" />`
+      : esc((a.format || a.resource_type || "file").toUpperCase())) +
+    "</div>" +
+    '<div class="meta">' +
+    `<div class="id">${esc(a.public_id)}</div>` +
+    `<div>${esc(a.format || "—")} · ${esc(bytesToMb(a.bytes))}</div>` +
+    `<div>${esc(a.created_at || "")}</div>` +
+    (note ? `<div class="note">${esc(note)}</div>` : "") +
+    (tags.length ? `<div class="tags">${tags.map((t) => `<span class="tag">${esc(t)}</span>`).join("")}</div>` : "") +
+    "</div>" +
+    (a.secure_url ? `<button class="copy-btn" data-copy="${esc(a.secure_url)}">Copy URL</button>` : "") +
+    "</div>"
+  );
+}
+
+function failedCard(item: BatchItem) {
+  return (
+    '<div class="card failed">' +
+    '<div class="thumb">❌</div>' +
+    '<div class="meta">' +
+    `<div class="id">${esc(item.input || `item ${item.index}`)}</div>` +
+    `<div class="error">${esc(item.error || "Upload failed")}</div>` +
+    "</div>" +
+    "</div>"
+  );
+}
+
+function renderBatch(b: Batch) {
+  const items = Array.isArray(b.items) ? b.items : [];
+  byId("title").textContent = "📦 Batch Upload";
+  byId("subtitle").textContent =
+    `${b.succeeded ?? 0} of ${b.total ?? items.length} uploaded` +
+    (b.deduplicated ? ` — ${b.deduplicated} already existed` : "") +
+    (b.failed ? ` — ${b.failed} failed` : "");
+  show(byId("empty"), !items.length);
+
+  const grid = byId("grid");
+  grid.innerHTML = items
+    .map((item) =>
+      item.status === "success" && item.upload
+        ? card(item.upload, item.deduplicated ? "♻️ Already uploaded" : undefined)
+        : failedCard(item)
+    )
+    .join("");
+  bindCopyButtons(grid);
+
+  const more = byId("more");
+  show(more, false);
+  more.textContent = "";
+}
+
+function renderSearch(s: Search) {
+  const assets = Array.isArray(s.assets) ? s.assets : [];
+  byId("title").textContent = "🔎 Cloudinary Assets";
+  byId("subtitle").textContent =
+    `Showing ${assets.length} of ${s.total_count ?? assets.length} asset(s)` + (s.expression ? ` — ${s.expression}` : "");
+  show(byId("empty"), !assets.length);
+
+  const grid = byId("grid");
+  grid.innerHTML = assets.map((a) => card(a)).join("");
+  bindCopyButtons(grid);
+
+  const more = byId("more");
+  show(more, Boolean(s.next_cursor));
+  more.textContent = s.next_cursor ? `More results available. Ask to continue with next_cursor: ${s.next_cursor}` : "";
+}
+
+const mcp = new McpAppClient({ name: "cloudinary-gallery", version: "1.0.0" });
+
+mcp.onToolResult<{ search?: Search; batch?: Batch }>((sc, result) => {
+  if (sc.search) renderSearch(sc.search);
+  else if (sc.batch) renderBatch(sc.batch);
+  else console.log("tool-result received but no search or batch found:", result);
+  mcp.reportSize();
+});
+
+mcp.connect().catch(console.error);
@@ -0,0 +1,297 @@
+import { McpAppClient } from "../runtime/client.js";
+import { byId, bytesToMb, errorMessage, esc, show, thumbUrl } from "../runtime/dom.js";
+
+/**
+ * Media library browser for `browse_library`. Paging, filtering and the
+ * bulk actions all run as tool calls through the host.
+ */
+
+type Asset = {
+  public_id: string;
+  format?: string;
+  resource_type: string;
+  bytes?: number;
+  secure_url?: string;
+  tags?: string[];
+};
+
+type Preset = { label: string; steps: Record<string, unknown>[] };
+
+type Library = {
+  folder: string;
+  tags: string[];
+  resource_type: string | null;
+  /** Absent on later pages. */
+  folders?: string[];
+  total_count: number;
+  next_cursor: string | null;
+  page_size: number;
+  assets: Asset[];
+  transform_presets?: Preset[];
+};
+
+// Current view: filters, loaded pages and the selection (keyed by type/public_id)
+const view = {
+  folder: "",
+  tags: [] as string[],
+  resource_type: null as string | null,
+  page_size: 24,
+  total_count: 0,
+  assets: [] as Asset[],
+  next_cursor: null as string | null,
+  presets: [] as Preset[],
+};
+const selected = new Map<string, Asset>();
+let deleteArmed = false;
+
+const keyOf = (a: Asset) => `${a.resource_type}/${a.public_id}`;
+
+function setStatus(text: string, isError = false) {
+  const status = byId("status");
+  status.textContent = text;
+  status.className = isError ? "status error" : "status";
+}
+
+function card(a: Asset) {
+  const thumb = thumbUrl(a);
+  const key = keyOf(a);
+  const on = selected.has(key);
+  const tags = Array.isArray(a.tags) ? a.tags : [];
+  return (
+    `<div class="card${on ? " selected" : ""}" data-key="${esc(key)}">` +
+    `<input type="checkbox"${on ? " checked" : ""} tabindex="-1">` +
+    '<div class="thumb">' +
+    (thumb
+      ? `<img src="${esc(thumb)}" alt="${esc(a.public_id)}" loading="lazy" />`
+      : esc((a.format || a.resource_type || "file").toUpperCase())) +
+    "</div>" +
+    '<div class="meta">' +
+    `<div class="id">${esc(a.public_id)}</div>` +
+    `<div>${esc(a.format || "—")} · ${esc(bytesToMb(a.bytes))}</div>` +
+    (tags.length
+      ? `<div class="tags">${tags.map((t) => `<span class="tag" data-tag="${esc(t)}">${esc(t)}</span>`).join("")}</div>`
+      : "") +
+    "</div>" +
+    "</div>"
+  );
+}
+
+function renderCrumbs() {
+  const parts = view.folder ? view.folder.split("/") : [];
+  const links = ['<a data-folder="">All assets</a>'].concat(
+    parts.map((p, i) => `<a data-folder="${esc(parts.slice(0, i + 1).join("/"))}">${esc(p)}</a>`)
+  );
+  byId("crumbs").innerHTML = `📁 ${links.join(" / ")}`;
+}
+
+function renderFolders(folders: string[]) {
+  byId("folders").innerHTML = folders
+    .map((f) => `<button class="chip" data-folder="${esc(f)}">📁 ${esc(f.split("/").pop())}</button>`)
+    .join("");
+}
+
+function renderSelection() {
+  const n = selected.size;
+  byId("selCount").textContent = `${n} selected`;
+  for (const id of ["addTag", "removeTag", "transform", "insert", "delete"]) byId<HTMLButtonElement>(id).disabled = !n;
+  deleteArmed = false;
+  byId("delete").textContent = "Delete";
+  document.querySelectorAll<HTMLElement>(".card").forEach((el) => {
+    const on = selected.has(el.dataset.key!);
+    el.classList.toggle("selected", on);
+    el.querySelector("input")!.checked = on;
+  });
+}
+
+function renderGrid() {
+  byId("grid").innerHTML = view.assets.map(card).join("");
+  show(byId("empty"), !view.assets.length);
+  show(byId("loadMore"), Boolean(view.next_cursor), "inline-block");
+  byId("subtitle").textContent =
+    `Showing ${view.assets.length} of ${view.total_count} asset(s)` +
+    (view.tags.length ? ` tagged ${view.tags.join(", ")}` : "");
+  renderSelection();
+}
+
+/** Show a page from browse_library; `append` adds it to the loaded pages. */
+function render(lib: Library, append: boolean) {
+  view.folder = lib.folder || "";
+  view.tags = lib.tags || [];
+  view.resource_type = lib.resource_type || null;
+  view.page_size = lib.page_size || view.page_size;
+  view.total_count = lib.total_count;
+  view.next_cursor = lib.next_cursor;
+  view.assets = append ? view.assets.concat(lib.assets || []) : lib.assets || [];
+  if (lib.transform_presets) {
+    view.presets = lib.transform_presets;
+    byId("preset").innerHTML = view.presets.map((p, i) => `<option value="${i}">${esc(p.label)}</option>`).join("");
+  }
+  if (!append) {
+    selected.clear();
+    byId<HTMLInputElement>("tagFilter").value = view.tags.join(", ");
+    byId<HTMLSelectElement>("typeFilter").value = view.resource_type || "";
+    renderCrumbs();
+    renderFolders(lib.folders ?? []);
+  }
+  renderGrid();
+}
+
+async function browse(changes: Partial<{ folder: string; tags: string[]; resource_type: string; next_cursor: string }>, append = false) {
+  const args: Record<string, unknown> = {
+    folder: view.folder,
+    tags: view.tags,
+    max_results: view.page_size,
+    resource_type: view.resource_type || undefined,
+    ...changes,
+  };
+  if (!args.resource_type) delete args.resource_type;
+  setStatus("Loading…");
+  try {
+    const result = await mcp.callTool<{ library?: Library }>("browse_library", args);
+    const lib = result.structuredContent?.library;
+    if (!lib) throw new Error("browse_library returned no library");
+    render(lib, append);
+    setStatus("");
+  } catch (err) {
+    setStatus(errorMessage(err), true);
+  }
+  mcp.reportSize();
+}
+
+/** Tool calls take one resource_type, so group the selection by it. */
+function byType(assets: Asset[]) {
+  const groups: Record<string, string[]> = {};
+  for (const a of assets) (groups[a.resource_type] ||= []).push(a.public_id);
+  return Object.entries(groups);
+}
+
+async function updateTags(op: "add" | "remove") {
+  const tag = byId<HTMLInputElement>("tagName").value.trim();
+  if (!tag) {
+    setStatus("Enter a tag first.", true);
+    return;
+  }
+  setStatus(op === "add" ? "Adding tag…" : "Removing tag…");
+  try {
+    for (const [resource_type, public_ids] of byType([...selected.values()])) {
+      await mcp.callTool("update_tags", { public_ids, resource_type, [op]: [tag] });
+    }
+    await browse({});
+    setStatus(op === "add" ? "Tag added." : "Tag removed.");
+  } catch (err) {
+    setStatus(errorMessage(err), true);
+  }
+}
+
+const mcp = new McpAppClient({ name: "cloudinary-library", version: "1.0.0" });
+
+mcp.onToolResult<{ library?: Library }>((sc, result) => {
+  if (sc.library) render(sc.library, false);
+  else console.log("tool-result received but no library found:", result);
+  mcp.reportSize();
+});
+
+for (const id of ["crumbs", "folders"]) {
+  byId(id).addEventListener("click", (e) => {
+    const folder = (e.target as HTMLElement).closest<HTMLElement>("[data-folder]")?.dataset.folder;
+    if (folder !== undefined) browse({ folder });
+  });
+}
+
+byId("grid").addEventListener("click", (e) => {
+  const target = e.target as HTMLElement;
+  const tag = target.closest<HTMLElement>("[data-tag]")?.dataset.tag;
+  if (tag) {
+    browse({ tags: [tag] });
+    return;
+  }
+  const key = target.closest<HTMLElement>(".card")?.dataset.key;
+  if (!key) return;
+  if (selected.has(key)) selected.delete(key);
+  else selected.set(key, view.assets.find((a) => keyOf(a) === key)!);
+  renderSelection();
+});
+
+byId("apply").addEventListener("click", () => {
+  const tags = byId<HTMLInputElement>("tagFilter").value.split(",").map((t) => t.trim()).filter(Boolean);
+  browse({ tags, resource_type: byId<HTMLSelectElement>("typeFilter").value || undefined });
+});
+
+byId("loadMore").addEventListener("click", () => {
+  if (view.next_cursor) browse({ next_cursor: view.next_cursor }, true);
+});
+
+byId("selectAll").addEventListener("click", () => {
+  view.assets.forEach((a) => selected.set(keyOf(a), a));
+  renderSelection();
+});
+
+byId("clearSel").addEventListener("click", () => {
+  selected.clear();
+  renderSelection();
+});
+
+byId("addTag").addEventListener("click", () => updateTags("add"));
+byId("removeTag").addEventListener("click", () => updateTags("remove"));
+
+// Sandboxed iframes may not show confirm(), so deleting takes a second click
+byId("delete").addEventListener("click", async () => {
+  if (!deleteArmed) {
+    deleteArmed = true;
+    byId("delete").textContent = `Confirm delete (${selected.size})`;
+    return;
+  }
+  setStatus("Deleting…");
+  try {
+    let count = 0;
+    for (const [resource_type, public_ids] of byType([...selected.values()])) {
+      await mcp.callTool("delete_assets", { public_ids, resource_type, confirm: true });
+      count += public_ids.length;
+    }
+    await browse({});
+    setStatus(`Deleted ${count} asset(s).`);
+  } catch (err) {
+    setStatus(errorMessage(err), true);
+  }
+});
+
+byId("transform").addEventListener("click", async () => {
+  const preset = view.presets[Number(byId<HTMLSelectElement>("preset").value)];
+  const assets = [...selected.values()].filter((a) => a.resource_type !== "raw");
+  if (!preset || !assets.length) {
+    setStatus("Select images or videos to transform.", true);
+    return;
+  }
+  setStatus(`Building ${preset.label} URLs…`);
+  try {
+    const urls: { public_id: string; url: string }[] = [];
+    for (const a of assets) {
+      const result = await mcp.callTool<{ transform?: { url: string } }>("transform", {
+        public_id: a.public_id,
+        resource_type: a.resource_type,
+        steps: preset.steps,
+      });
+      urls.push({ public_id: a.public_id, url: result.structuredContent?.transform?.url ?? "" });
+    }
+    byId("results").innerHTML =
+      `<strong>${esc(preset.label)}</strong>` +
+      urls
+        .map((u) => `<div>${esc(u.public_id)}: <a href="${esc(u.url)}" target="_blank" rel="noopener">${esc(u.url)}</a></div>`)
+        .join("") +
+      '<button class="btn secondary" id="insertTransformed">Insert these links into chat</button>';
+    byId("insertTransformed").addEventListener("click", () =>
+      mcp.sendMessage(`${preset.label}:\n${urls.map((u) => `- ${u.public_id}: ${u.url}`).join("\n")}`)
+    );
+    setStatus("");
+  } catch (err) {
+    setStatus(errorMessage(err), true);
+  }
+  mcp.reportSize();
+});
+
+byId("insert").addEventListener("click", async () => {
+  const lines = [...selected.values()].map((a) => `- ${a.public_id}: ${a.secure_url}`);
+  await mcp.sendMessage(`Here are the assets I picked from the Cloudinary library:\n${lines.join("\n")}`);
+});
+
+mcp.connect().catch(console.error);
@@ -0,0 +1,426 @@
+import { McpAppClient, ToolCallError, type ToolErrorInfo } from "../runtime/client.js";
+import { bindCopyButtons, byId, errorMessage, esc, show } from "../runtime/dom.js";
+import { formatBytes, formatDate } from "../runtime/format.js";
+
+/**
+ * Upload result page. It does NOT have results baked in: it hydrates from the
+ * tool result (structuredContent.upload, plus .operation for asset-management
+ * tools and .analysis for AI metadata), so the same HTML serves every call. Theme, locale and display mode
+ * follow the host context. An upload that returns a running job (.job) shows
+ * "Processing…" and polls get_job until the job finishes.
+ */
+
+type Asset = {
+  public_id?: string;
+  format?: string;
+  resource_type?: string;
+  created_at?: string;
+  bytes?: number;
+  url?: string;
+  secure_url?: string;
+  tags?: string[];
+  context?: Record<string, string>;
+};
+
+type Operation = { action?: string; public_ids?: string[]; dry_run?: boolean; from?: string; to?: string };
+type Example = { label: string; url: string };
+type PosterFrame = { offset: string | number; url: string };
+type Video = { posters?: PosterFrame[]; trim?: { start_offset: string | number; end_offset?: string | number; url: string } };
+
+type Analysis = {
+  tags?: { tag: string; confidence: number }[];
+  caption?: string;
+  ocr_text?: string;
+  moderation?: { kind: string; status: string }[];
+  colors?: { color: string; percent: number }[];
+  faces?: unknown[];
+  unavailable?: { feature: string; reason: string }[];
+};
+
+type Job = {
+  id: string;
+  status: "running" | "succeeded" | "failed" | "cancelled";
+  progress?: { progress: number; total?: number; message?: string };
+  /** The upload's structured content, once succeeded. */
+  result?: UploadResult;
+  error?: ToolErrorInfo;
+};
+
+type UploadResult = {
+  /** The upload job; without `upload` it is still running. */
+  job?: Job;
+  upload?: Asset;
+  /** The upload matched an existing asset by content, which is shown instead. */
+  deduplicated?: boolean;
+  operation?: Operation;
+  /** From analyze_asset, or upload with `analyze`. */
+  analysis?: Analysis;
+  transformations?: Example[];
+  video?: Video;
+  /** Chat messages for the buttons, rendered server-side from prompt definitions. */
+  prompts?: Record<string, string>;
+  /** Set instead of the fields above when the tool failed. */
+  error?: ToolErrorInfo;
+};
+
+const JOB_POLL_MS = 1500;
+
+let prompts: Record<string, string> = {};
+/** Kept so a locale change can re-render it. */
+let latest: UploadResult | null = null;
+/** The running job being polled, if any. */
+let followed: string | null = null;
+let pollTimer: ReturnType<typeof setTimeout> | undefined;
+
+function showProgress(progress: number | undefined, total: number | undefined, message?: string) {
+  const bar = byId("progressBar");
+  const text = byId("progressText");
+  show(byId("progressRoot"), true);
+  byId("headerIcon").textContent = "⏳";
+  byId("headerTitle").textContent = "Uploading…";
+
+  if (typeof progress === "number" && typeof total === "number" && total > 0) {
+    const pct = Math.min(100, Math.round((progress / total) * 100));
+    bar.classList.remove("indeterminate");
+    bar.style.width = `${pct}%`;
+    text.textContent = `${pct}%` + (message ? ` — ${message}` : "");
+  } else {
+    bar.classList.add("indeterminate");
+    bar.style.width = "";
+    text.textContent = message || "Uploading…";
+  }
+}
+
+function hideProgress() {
+  show(byId("progressRoot"), false);
+  show(byId("cancelJobBtn"), false);
+}
+
+function renderError(error: ToolErrorInfo) {
+  byId("headerIcon").textContent = "⚠️";
+  byId("headerTitle").textContent = error.retryable ? "Temporarily Unavailable" : "Something Went Wrong";
+  byId("subtitle").textContent =
+    error.message + (error.field ? ` (${error.field})` : "") + (error.retryable ? " — try again shortly." : "");
+}
+
+// Header copy for asset-management results (structuredContent.operation)
+function describeOperation(op: Operation) {
+  const n = Array.isArray(op.public_ids) ? op.public_ids.length : 0;
+  if (op.action === "delete" && op.dry_run) {
+    return { icon: "🧪", title: "Delete Preview", subtitle: `${n} asset(s) would be deleted — confirm to proceed` };
+  }
+  if (op.action === "delete") return { icon: "🗑️", title: "Deleted", subtitle: `${n} asset(s) deleted` };
+  if (op.action === "rename" && op.dry_run) {
+    const replaces = n ? `would replace ${op.public_ids![0]}` : "would not replace any asset";
+    return { icon: "🧪", title: "Rename Preview", subtitle: `${op.from || "—"} → ${op.to || "—"} ${replaces} — confirm to proceed` };
+  }
+  if (op.action === "rename") return { icon: "✏️", title: "Renamed", subtitle: `Moved from ${op.from || "—"}` };
+  if (op.action === "update_tags") return { icon: "🏷️", title: "Tags Updated", subtitle: `Updated ${n} asset(s)` };
+  if (op.action === "set_context") return { icon: "📝", title: "Metadata Updated", subtitle: `Updated ${n} asset(s)` };
+  if (op.action === "analyze") return { icon: "🤖", title: "Analysis Complete", subtitle: op.public_ids?.[0] || "" };
+  return { icon: "✅", title: "Done", subtitle: op.action || "" };
+}
+
+function renderList(rootId: string, listId: string, html: string[]) {
+  const list = byId(listId);
+  show(byId(rootId), html.length > 0);
+  list.innerHTML = html.join("");
+}
+
+function exampleCard(label: string, url: string) {
+  return (
+    '<div class="transform-example">' +
+    `<img src="${esc(url)}" alt="${esc(label)}" />` +
+    `<p><strong>${esc(label)}</strong></p>` +
+    `<button class="copy-btn" data-copy="${esc(url)}">Copy URL</button>` +
+    "</div>"
+  );
+}
+
+function offsetLabel(offset: string | number) {
+  const value = String(offset);
+  return /p$/.test(value) ? `${value.slice(0, -1)}%` : `${value}s`;
+}
+
+function renderVideo(isVideo: boolean, video: Video | undefined) {
+  const posterFrames = byId("posterFrames");
+  const trimPreview = byId("trimPreview");
+  const posters = Array.isArray(video?.posters) ? video.posters : [];
+
+  // Video branch: poster frames and a trim preview (built server-side by the video tools)
+  if (!isVideo || (!posters.length && !video?.trim)) {
+    show(byId("videoRoot"), false);
+    posterFrames.innerHTML = "";
+    trimPreview.innerHTML = "";
+    return;
+  }
+
+  show(byId("videoRoot"), true);
+  posterFrames.innerHTML = posters.map((f) => exampleCard(offsetLabel(f.offset), f.url)).join("");
+  bindCopyButtons(posterFrames);
+
+  const trim = video?.trim;
+  show(byId("trimRoot"), Boolean(trim));
+  if (trim) {
+    byId("trimLabel").textContent = `Seconds ${trim.start_offset}–${trim.end_offset ?? "end"} · ${trim.url}`;
+    trimPreview.innerHTML =
+      "<video controls muted" +
+      (posters[0] ? ` poster="${esc(posters[0].url)}"` : "") +
+      `><source src="${esc(trim.url)}"></video>`;
+  } else {
+    trimPreview.innerHTML = "";
+  }
+}
+
+function renderAnalysis(analysis: Analysis | undefined, locale: string | undefined) {
+  show(byId("analysisRoot"), Boolean(analysis));
+  if (!analysis) return;
+  const percent = new Intl.NumberFormat(locale, { style: "percent" });
+
+  show(byId("captionRoot"), Boolean(analysis.caption));
+  byId("caption").textContent = analysis.caption || "";
+  byId("saveAltStatus").textContent = "";
+
+  const tags = analysis.tags ?? [];
+  renderList(
+    "aiTagsRoot",
+    "aiTags",
+    tags.map((t) => `<span class="tag">${esc(t.tag)}<span class="confidence">${percent.format(t.confidence)}</span></span>`)
+  );
+
+  show(byId("ocrRoot"), Boolean(analysis.ocr_text));
+  byId("ocrText").textContent = analysis.ocr_text || "";
+
+  const moderation = analysis.moderation ?? [];
+  renderList(
+    "moderationRoot",
+    "moderation",
+    moderation.map((m) => `<span class="badge ${esc(m.status)}">${esc(m.kind)}: ${esc(m.status)}</span>`)
+  );
+
+  const colors = analysis.colors ?? [];
+  renderList(
+    "colorsRoot",
+    "colors",
+    colors.map(
+      (c) => `<div title="${esc(c.color)} · ${esc(c.percent)}%" style="flex:${Number(c.percent) || 0};background:${esc(c.color)}"></div>`
+    )
+  );
+
+  const faces = byId("faces");
+  show(faces, Array.isArray(analysis.faces));
+  faces.textContent = `Faces detected: ${analysis.faces?.length ?? 0}`;
+
+  const unavailable = analysis.unavailable ?? [];
+  const note = byId("unavailable");
+  show(note, unavailable.length > 0);
+  note.textContent = `Not available: ${unavailable.map((u) => `${u.feature} (${u.reason})`).join("; ")}`;
+}
+
+function render({ upload: u = {}, deduplicated, operation: op, transformations: examples, video, analysis }: UploadResult) {
+  const locale = mcp.hostContext.locale;
+  const header = op
+    ? describeOperation(op)
+    : deduplicated
+      ? { icon: "♻️", title: "Already Uploaded", subtitle: "This file was uploaded before; showing the existing asset" }
+      : null;
+  byId("headerIcon").textContent = header ? header.icon : "✅";
+  byId("headerTitle").textContent = header ? header.title : "Upload Successful!";
+  byId("subtitle").textContent = header
+    ? header.subtitle
+    : `Your ${u.resource_type || "asset"} has been uploaded to Cloudinary`;
+
+  byId("publicId").textContent = u.public_id || "—";
+  byId("format").textContent = u.format || "—";
+  byId("type").textContent = u.resource_type || "—";
+  byId("size").textContent = formatBytes(u.bytes, locale);
+  byId("created").textContent = formatDate(u.created_at, locale);
+  byId("created").title = u.created_at || "";
+
+  const url = u.secure_url || u.url || "";
+  byId("url").textContent = url || "—";
+
+  const dl = byId<HTMLAnchorElement>("downloadLink");
+  dl.href = url || "#";
+  dl.style.pointerEvents = url ? "auto" : "none";
+  dl.style.opacity = url ? "1" : ".6";
+
+  // Preview
+  const isImage = u.resource_type === "image";
+  const isVideo = u.resource_type === "video";
+  const preview = byId("preview");
+  show(byId("previewRoot"), Boolean(url && (isImage || isVideo)));
+  if (url && isImage) {
+    preview.innerHTML = `<img src="${esc(url)}" alt="Uploaded image" />`;
+  } else if (url && isVideo) {
+    const poster = video?.posters?.[0];
+    preview.innerHTML =
+      "<video controls" + (poster ? ` poster="${esc(poster.url)}"` : "") + `><source src="${esc(url)}"></video>`;
+  } else {
+    preview.innerHTML = "";
+  }
+
+  const tags = Array.isArray(u.tags) ? u.tags : [];
+  renderList("tagsRoot", "tags", tags.map((t) => `<span class="tag">${esc(t)}</span>`));
+
+  const ctx = u.context && typeof u.context === "object" ? Object.entries(u.context) : [];
+  renderList("contextRoot", "context", ctx.map(([k, v]) => `<span class="tag">${esc(k)}: ${esc(v)}</span>`));
+
+  // Transformations (built server-side by the transform tool)
+  const list = Array.isArray(examples) ? examples : [];
+  renderList("transformRoot", "transformExamples", list.map((ex) => exampleCard(ex.label, ex.url)));
+  bindCopyButtons(byId("transformExamples"));
+
+  renderVideo(isVideo, video);
+  renderAnalysis(analysis, locale);
+}
+
+const mcp = new McpAppClient({ name: "cloudinary-upload", version: "1.0.0" });
+
+// Tool was invoked: show an indeterminate bar until progress/result arrives
+mcp.onToolInput(() => {
+  showProgress(undefined, undefined, "Uploading…");
+  mcp.reportSize();
+});
+
+mcp.onProgress((p) => showProgress(p.progress, p.total, p.message));
+
+function showResult(sc: UploadResult) {
+  hideProgress();
+  if (sc.error) {
+    renderError(sc.error);
+    mcp.reportSize();
+    return;
+  }
+  latest = sc;
+  prompts = sc.prompts || {};
+  byId<HTMLButtonElement>("memeBtn").disabled = !prompts.meme_caption;
+  byId<HTMLButtonElement>("tweetBtn").disabled = !prompts.tweet_upload;
+  render(sc);
+  mcp.reportSize();
+}
+
+// Running: show its progress and poll again; finished: show the upload or the error
+function followJob(job: Job) {
+  clearTimeout(pollTimer);
+  if (job.status === "running") {
+    followed = job.id;
+    const p = job.progress;
+    showProgress(p?.progress, p?.total, p?.message || "Processing…");
+    byId("headerTitle").textContent = "Processing…";
+    byId("subtitle").textContent = `Job ${job.id}`;
+    show(byId("cancelJobBtn"), true, "inline-block");
+    pollTimer = setTimeout(() => pollJob(job.id), JOB_POLL_MS);
+    mcp.reportSize();
+    return;
+  }
+  followed = null;
+  if (job.status === "succeeded" && job.result) {
+    showResult(job.result);
+    return;
+  }
+  hideProgress();
+  renderError(job.error ?? { category: "internal", message: `The upload ${job.status}.`, retryable: false });
+  mcp.reportSize();
+}
+
+async function pollJob(id: string) {
+  try {
+    const result = await mcp.callTool<{ job?: Job }>("get_job", { job_id: id });
+    if (followed === id && result.structuredContent?.job) followJob(result.structuredContent.job);
+  } catch (err) {
+    if (followed !== id) return;
+    const details = err instanceof ToolCallError ? err.details : undefined;
+    // A brief outage should not lose track of the job
+    if (details?.retryable) {
+      pollTimer = setTimeout(() => pollJob(id), JOB_POLL_MS * 2);
+      return;
+    }
+    followed = null;
+    hideProgress();
+    renderError(details ?? { category: "internal", message: errorMessage(err), retryable: false });
+    mcp.reportSize();
+  }
+}
+
+mcp.onToolResult<UploadResult>((sc, result) => {
+  if (sc.job && !sc.upload && !sc.error) {
+    followJob(sc.job);
+    return;
+  }
+  if (!sc.error && !sc.upload && !sc.operation) {
+    console.log("tool-result received but no upload found:", result);
+    return;
+  }
+  showResult(sc);
+});
+
+// Only offered when the host lists fullscreen among its display modes
+function updateFullscreenButton() {
+  const btn = byId("fullscreenBtn");
+  const fullscreen = mcp.hostContext.displayMode === "fullscreen";
+  show(btn, fullscreen || mcp.canUseDisplayMode("fullscreen"), "inline-block");
+  btn.textContent = fullscreen ? "✕ Exit fullscreen" : "⛶ Fullscreen";
+}
+
+mcp.onHostContextChanged(() => {
+  updateFullscreenButton();
+  if (latest) render(latest);
+  mcp.reportSize();
+});
+
+byId("fullscreenBtn").addEventListener("click", async () => {
+  const target = mcp.hostContext.displayMode === "fullscreen" ? "inline" : "fullscreen";
+  try {
+    await mcp.requestDisplayMode(target);
+  } catch (err) {
+    console.error(`Display mode change to ${target} failed: ${errorMessage(err)}`);
+  }
+});
+
+// Stores the caption through set_context, then shows the updated context
+byId("saveAltBtn").addEventListener("click", async () => {
+  const u = latest?.upload;
+  const caption = latest?.analysis?.caption;
+  if (!latest || !u?.public_id || !caption) return;
+  const status = byId("saveAltStatus");
+  status.textContent = "Saving…";
+  try {
+    const result = await mcp.callTool<UploadResult>("set_context", {
+      public_ids: [u.public_id],
+      resource_type: u.resource_type,
+      context: { alt: caption },
+    });
+    latest = { ...latest, upload: result.structuredContent?.upload ?? u };
+    render(latest);
+    byId("saveAltStatus").textContent = "Saved.";
+  } catch (err) {
+    status.textContent = errorMessage(err);
+  }
+  mcp.reportSize();
+});
+
+byId("cancelJobBtn").addEventListener("click", async () => {
+  const id = followed;
+  if (!id) return;
+  const btn = byId<HTMLButtonElement>("cancelJobBtn");
+  btn.disabled = true;
+  try {
+    const result = await mcp.callTool<{ job?: Job }>("cancel_job", { job_id: id });
+    if (followed === id && result.structuredContent?.job) followJob(result.structuredContent.job);
+  } catch (err) {
+    // Usually the job finished first; the next poll shows how
+    byId("progressText").textContent = errorMessage(err);
+  }
+  btn.disabled = false;
+});
+
+byId("memeBtn").addEventListener("click", async () => {
+  if (prompts.meme_caption) await mcp.sendMessage(prompts.meme_caption);
+});
+
+byId("tweetBtn").addEventListener("click", async () => {
+  if (prompts.tweet_upload) await mcp.sendMessage(prompts.tweet_upload);
+});
+
+mcp.connect().catch(console.error);
@@ -0,0 +1,245 @@
+/**
+ * The MCP Apps side of every UI bundle: JSON-RPC over postMessage with the
+ * host, the ui/initialize handshake, host context (theme, display mode),
+ * tool calls and size reporting. Apps subscribe to what they render from;
+ * nothing here knows about a particular tool.
+ */
+
+export const PROTOCOL_VERSION = "2026-01-26";
+
+export type Theme = "light" | "dark";
+export type DisplayMode = "inline" | "fullscreen" | "pip";
+
+export type HostContext = {
+  theme?: Theme;
+  displayMode?: DisplayMode;
+  availableDisplayModes?: DisplayMode[];
+  locale?: string;
+  /** CSS custom properties the host wants apps to use (e.g. `--color-background-primary`). */
+  styles?: { variables?: Record<string, string | undefined> };
+  containerDimensions?: { width?: number; height?: number; maxWidth?: number; maxHeight?: number };
+  [key: string]: unknown;
+};
+
+export type ContentBlock = { type: string; text?: string; [key: string]: unknown };
+
+/** `structuredContent.error` of a failed tool call (see the server's errors.ts). */
+export type ToolErrorInfo = {
+  category: string;
+  message: string;
+  retryable: boolean;
+  http_status?: number;
+  field?: string;
+};
+
+/** Rejection from `callTool` when the tool reported an error. */
+export class ToolCallError extends Error {
+  constructor(
+    message: string,
+    public details?: ToolErrorInfo
+  ) {
+    super(message);
+    this.name = "ToolCallError";
+  }
+}
+
+export type ToolResult<S = Record<string, any>> = {
+  content?: ContentBlock[];
+  structuredContent?: S;
+  isError?: boolean;
+  _meta?: Record<string, unknown>;
+};
+
+type JsonRpcMessage = {
+  jsonrpc?: "2.0";
+  id?: number | string;
+  method?: string;
+  params?: any;
+  result?: any;
+  error?: { code?: number; message: string };
+};
+
+type Pending = { resolve: (value: any) => void; reject: (err: Error) => void; timer: ReturnType<typeof setTimeout> };
+
+const REQUEST_TIMEOUT_MS = 30_000;
+
+/**
+ * Hosts disagree on where the tool result sits in tool-result params: ChatGPT
+ * sends the result itself, others wrap it.
+ */
+export function toolResultOf(params: any): ToolResult {
+  if (params?.structuredContent || params?.content) return params;
+  return params?.result ?? params?.toolResult ?? params?.tool_result ?? {};
+}
+
+export class McpAppClient {
+  hostContext: HostContext = {};
+
+  private pending = new Map<number, Pending>();
+  private nextId = 0;
+  private handlers = new Map<string, ((params: any) => void)[]>();
+  private contextHandlers: ((context: HostContext) => void)[] = [];
+
+  constructor(private appInfo: { name: string; version: string }) {
+    window.addEventListener("message", (e) => this.onMessage(e));
+    this.on("ui/notifications/host-context-changed", (params: Partial<HostContext>) => this.updateHostContext(params));
+  }
+
+  /** Handle a host notification by method name. */
+  on(method: string, handler: (params: any) => void) {
+    const list = this.handlers.get(method) ?? [];
+    list.push(handler);
+    this.handlers.set(method, list);
+    return this;
+  }
+
+  /** The tool this UI belongs to returned (initially, or after a re-run). */
+  onToolResult<S = Record<string, any>>(handler: (structured: S, result: ToolResult<S>) => void) {
+    return this.on("ui/notifications/tool-result", (params) => {
+      const result = toolResultOf(params) as ToolResult<S>;
+      handler((result.structuredContent ?? {}) as S, result);
+    });
+  }
+
+  /** The tool was invoked; its result is still pending. */
+  onToolInput(handler: (args: Record<string, unknown>) => void) {
+    return this.on("ui/notifications/tool-input", (params) => handler(params?.arguments ?? {}));
+  }
+
+  /** Progress of the running tool, from hosts that forward notifications/progress. */
+  onProgress(handler: (progress: { progress?: number; total?: number; message?: string }) => void) {
+    this.on("notifications/progress", (params) => handler(params ?? {}));
+    return this.on("ui/notifications/progress", (params) => handler(params ?? {}));
+  }
+
+  /** Host context changed: from the host, or after a display mode request. */
+  onHostContextChanged(handler: (context: HostContext) => void) {
+    this.contextHandlers.push(handler);
+    return this;
+  }
+
+  private updateHostContext(changes: Partial<HostContext>) {
+    this.hostContext = { ...this.hostContext, ...changes };
+    applyHostContext(this.hostContext);
+    for (const handler of this.contextHandlers) handler(this.hostContext);
+  }
+
+  private onMessage(event: MessageEvent) {
+    const data = event.data as JsonRpcMessage;
+    if (!data || typeof data !== "object") return;
+
+    if (data.id !== undefined && !data.method) {
+      const pending = this.pending.get(Number(data.id));
+      if (!pending) return;
+      this.pending.delete(Number(data.id));
+      clearTimeout(pending.timer);
+      if (data.error) pending.reject(new Error(data.error.message));
+      else pending.resolve(data.result);
+      return;
+    }
+
+    if (data.method) {
+      for (const handler of this.handlers.get(data.method) ?? []) {
+        try {
+          handler(data.params);
+        } catch (err) {
+          console.error(`Handler for ${data.method} failed`, err);
+        }
+      }
+    }
+  }
+
+  request<T = any>(method: string, params?: unknown): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const id = ++this.nextId;
+      const timer = setTimeout(() => {
+        if (this.pending.delete(id)) reject(new Error(`${method} timed out`));
+      }, REQUEST_TIMEOUT_MS);
+      this.pending.set(id, { resolve, reject, timer });
+      window.parent.postMessage({ jsonrpc: "2.0", id, method, params }, "*");
+    });
+  }
+
+  notify(method: string, params?: unknown) {
+    window.parent.postMessage({ jsonrpc: "2.0", method, params }, "*");
+  }
+
+  /**
+   * Handshake with the host, apply its theme, then keep it informed of the
+   * document height. Register handlers before calling this.
+   */
+  async connect() {
+    const result = await this.request<{ hostContext?: HostContext }>("ui/initialize", {
+      appInfo: this.appInfo,
+      appCapabilities: {},
+      protocolVersion: PROTOCOL_VERSION,
+    });
+    this.updateHostContext(result?.hostContext ?? {});
+    this.notify("ui/notifications/initialized", {});
+
+    this.reportSize();
+    new ResizeObserver(() => this.reportSize()).observe(document.documentElement);
+    window.addEventListener("load", () => this.reportSize());
+  }
+
+  reportSize() {
+    this.notify("ui/notifications/size-changed", { height: document.body.scrollHeight });
+  }
+
+  /** Post a user message to the chat. */
+  sendMessage(text: string) {
+    return this.request("ui/message", { content: { type: "text", text } });
+  }
+
+  /**
+   * Tell the model what happened in the app without posting a chat message;
+   * the host includes it with the user's next turn.
+   */
+  updateModelContext(text: string) {
+    return this.request("ui/update-model-context", { content: [{ type: "text", text }] });
+  }
+
+  /** Call one of this server's tools through the host; rejects on tool errors. */
+  async callTool<S = Record<string, any>>(name: string, args: Record<string, unknown> = {}): Promise<ToolResult<S>> {
+    const result = await this.request<ToolResult<S>>("tools/call", { name, arguments: args });
+    if (result?.isError) {
+      const text = (result.content ?? []).map((c) => c.text).filter(Boolean).join(" ");
+      const details = (result.structuredContent as { error?: ToolErrorInfo } | undefined)?.error;
+      throw new ToolCallError(text || `${name} failed`, details);
+    }
+    return result;
+  }
+
+  /** Whether the host says it can show this app in `mode`. */
+  canUseDisplayMode(mode: DisplayMode) {
+    return Boolean(this.hostContext.availableDisplayModes?.includes(mode));
+  }
+
+  /**
+   * Ask the host for another display mode. The host may pick a different one;
+   * the mode it answers with becomes the current one.
+   */
+  async requestDisplayMode(mode: DisplayMode): Promise<DisplayMode> {
+    const result = await this.request<{ mode?: DisplayMode }>("ui/request-display-mode", { mode });
+    const granted = result?.mode ?? mode;
+    this.updateHostContext({ displayMode: granted });
+    return granted;
+  }
+}
+
+/**
+ * Expose host context to CSS: `data-theme` and `data-display-mode` on <html>,
+ * `color-scheme`, `lang`, and the host's style variables as custom properties.
+ */
+export function applyHostContext(context: HostContext) {
+  const root = document.documentElement;
+  if (context.locale) root.lang = context.locale;
+  if (context.theme) {
+    root.dataset.theme = context.theme;
+    root.style.colorScheme = context.theme;
+  }
+  if (context.displayMode) root.dataset.displayMode = context.displayMode;
+  for (const [name, value] of Object.entries(context.styles?.variables ?? {})) {
+    if (value) root.style.setProperty(name, value);
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Small DOM helpers shared by the UI bundles.
+ */
+
+/** Element by id; throws if the markup and script disagree. */
+export function byId<T extends HTMLElement = HTMLElement>(id: string): T {
+  const el = document.getElementById(id);
+  if (!el) throw new Error(`Missing element #${id}`);
+  return el as T;
+}
+
+export function esc(value: unknown): string {
+  return String(value ?? "").replace(
+    /[&<>"']/g,
+    (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!
+  );
+}
+
+export function bytesToMb(bytes: unknown): string {
+  if (typeof bytes !== "number") return "—";
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+}
+
+export function show(el: HTMLElement, visible: boolean, display = "block") {
+  el.style.display = visible ? display : "none";
+}
+
+/** Square thumbnail URL for an image or video (first frame); "" for raw files. */
+export function thumbUrl(asset: { resource_type?: string; secure_url?: string }): string {
+  const url = asset.secure_url || "";
+  if (asset.resource_type === "image") return url.replace("/upload/", "/upload/w_300,h_300,c_fill/");
+  if (asset.resource_type === "video") {
+    return url.replace("/upload/", "/upload/w_300,h_300,c_fill,so_0/").replace(/\.[^./]+$/, ".jpg");
+  }
+  return "";
+}
+
+/** Wire every `[data-copy]` button under `root` to copy its value. */
+export function bindCopyButtons(root: ParentNode) {
+  root.querySelectorAll<HTMLButtonElement>("button[data-copy]").forEach((btn) => {
+    btn.addEventListener("click", async () => {
+      await navigator.clipboard.writeText(btn.dataset.copy || "");
+      const label = btn.textContent;
+      btn.textContent = "Copied!";
+      setTimeout(() => (btn.textContent = label), 1200);
+    });
+  });
+}
+
+export function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
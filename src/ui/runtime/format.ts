@@ -0,0 +1,38 @@
+/**
+ * Locale-aware formatting for values shown in the UIs. `locale` comes from the
+ * host context; undefined (or a tag Intl rejects) means the browser default.
+ */
+
+function safeLocale(locale: string | undefined) {
+  if (!locale) return undefined;
+  try {
+    return Intl.getCanonicalLocales(locale)[0];
+  } catch {
+    return undefined;
+  }
+}
+
+/** "1.5 MB", "820 kB", "12 byte" in the locale's number format. */
+export function formatBytes(bytes: unknown, locale?: string): string {
+  if (typeof bytes !== "number" || !Number.isFinite(bytes)) return "—";
+  const units = [
+    ["gigabyte", 1024 ** 3],
+    ["megabyte", 1024 ** 2],
+    ["kilobyte", 1024],
+  ] as const;
+  const [unit, size] = units.find(([, size]) => bytes >= size) ?? ["byte", 1];
+  return new Intl.NumberFormat(safeLocale(locale), {
+    style: "unit",
+    unit,
+    unitDisplay: "short",
+    maximumFractionDigits: unit === "byte" ? 0 : 2,
+  }).format(bytes / size);
+}
+
+/** Date and time for an ISO timestamp; the input unchanged if it does not parse. */
+export function formatDate(value: unknown, locale?: string): string {
+  if (typeof value !== "string" || !value) return "—";
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return new Intl.DateTimeFormat(safeLocale(locale), { dateStyle: "medium", timeStyle: "short" }).format(date);
+}
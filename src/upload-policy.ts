@@ -0,0 +1,385 @@
+import dns from "node:dns";
+import { lookup } from "node:dns/promises";
+import { open, realpath } from "node:fs/promises";
+import http from "node:http";
+import https from "node:https";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+import path from "node:path";
+import { Readable } from "node:stream";
+import type { ErrorCategory } from "./errors.js";
+
+/**
+ * Which upload inputs the server accepts, and from where. Over HTTP the
+ * caller is remote, so local paths must not reach arbitrary server files:
+ *
+ * - inputs: `path` (local files, including `file` values that are paths and
+ *   `upload_batch` directories), `url`, `data` (data URIs) and `direct`
+ *   (signed browser uploads, see sign_upload), switched per transport
+ * - local paths are resolved (symlinks and `..`) and must fall inside one of
+ *   the upload roots
+ * - content is sniffed from its first bytes and checked against the allowed
+ *   MIME types and against its extension or declared type
+ * - URLs must not resolve to loopback, private or link-local addresses. When
+ *   this server fetches a URL itself (`fetch`), every redirect hop is checked
+ *   and connections are refused to private addresses, so a host that
+ *   re-resolves after the check (DNS rebinding) does not get through either
+ */
+
+export const UPLOAD_INPUTS = ["path", "url", "data", "direct"] as const;
+export type UploadInput = (typeof UPLOAD_INPUTS)[number];
+export type Transport = "stdio" | "http";
+
+export type UploadPolicyConfig = {
+  inputs: UploadInput[];
+  /** Directories local paths must be inside; empty means anywhere. */
+  roots: string[];
+  /** MIME types or `type/*` patterns; empty means any type. */
+  allowed_types: string[];
+  allow_private_urls: boolean;
+};
+
+const DEFAULT_INPUTS: Record<Transport, UploadInput[]> = {
+  stdio: ["path", "url", "data", "direct"],
+  http: ["url", "data", "direct"],
+};
+
+export class UploadPolicyError extends Error {
+  constructor(
+    message: string,
+    public category: Extract<ErrorCategory, "invalid_input" | "forbidden" | "not_found"> = "forbidden"
+  ) {
+    super(message);
+    this.name = "UploadPolicyError";
+  }
+}
+
+const EXTENSION_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  avif: "image/avif",
+  heic: "image/heic",
+  svg: "image/svg+xml",
+  bmp: "image/bmp",
+  tif: "image/tiff",
+  tiff: "image/tiff",
+  ico: "image/x-icon",
+  mp4: "video/mp4",
+  m4v: "video/mp4",
+  mov: "video/quicktime",
+  webm: "video/webm",
+  mkv: "video/x-matroska",
+  avi: "video/x-msvideo",
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  ogg: "audio/ogg",
+  m4a: "audio/mp4",
+  pdf: "application/pdf",
+  zip: "application/zip",
+  txt: "text/plain",
+  csv: "text/csv",
+  json: "application/json",
+};
+
+/** Bytes read from the start of a file for sniffing. */
+const SNIFF_BYTES = 512;
+
+function startsWith(head: Buffer, bytes: number[], offset = 0) {
+  return bytes.every((b, i) => head[offset + i] === b);
+}
+
+/** The MIME type of well-known formats from their magic bytes; undefined if unknown. */
+export function sniffType(head: Buffer): string | undefined {
+  const ascii = (start: number, end: number) => head.subarray(start, end).toString("latin1");
+  if (startsWith(head, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith(head, [0x89, 0x50, 0x4e, 0x47])) return "image/png";
+  if (ascii(0, 4) === "GIF8") return "image/gif";
+  if (ascii(0, 4) === "RIFF") {
+    const kind = ascii(8, 12);
+    if (kind === "WEBP") return "image/webp";
+    if (kind === "WAVE") return "audio/wav";
+    if (kind === "AVI ") return "video/x-msvideo";
+  }
+  if (ascii(4, 8) === "ftyp") {
+    const brand = ascii(8, 12);
+    if (brand === "avif" || brand === "avis") return "image/avif";
+    if (["heic", "heix", "mif1", "msf1"].includes(brand)) return "image/heic";
+    if (brand === "qt  ") return "video/quicktime";
+    if (brand.startsWith("M4A")) return "audio/mp4";
+    return "video/mp4";
+  }
+  if (startsWith(head, [0x1a, 0x45, 0xdf, 0xa3])) return "video/webm";
+  if (ascii(0, 5) === "%PDF-") return "application/pdf";
+  if (ascii(0, 2) === "BM") return "image/bmp";
+  if (startsWith(head, [0x49, 0x49, 0x2a, 0x00]) || startsWith(head, [0x4d, 0x4d, 0x00, 0x2a])) return "image/tiff";
+  if (startsWith(head, [0x00, 0x00, 0x01, 0x00])) return "image/x-icon";
+  if (ascii(0, 3) === "ID3" || startsWith(head, [0xff, 0xfb])) return "audio/mpeg";
+  if (ascii(0, 4) === "OggS") return "audio/ogg";
+  if (startsWith(head, [0x50, 0x4b, 0x03, 0x04])) return "application/zip";
+  if (startsWith(head, [0x7f, 0x45, 0x4c, 0x46])) return "application/x-executable";
+  if (ascii(0, 2) === "MZ") return "application/x-msdownload";
+  if (/^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<svg[\s>]/i.test(ascii(0, SNIFF_BYTES))) return "image/svg+xml";
+  return undefined;
+}
+
+function typeMatches(type: string, pattern: string) {
+  if (pattern === "*" || pattern === "*/*") return true;
+  return pattern.endsWith("/*") ? type.startsWith(pattern.slice(0, -1)) : type === pattern;
+}
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and reserved ranges.
+// BlockList also matches IPv4-mapped IPv6 addresses (::ffff:7f00:1) against the IPv4 rules.
+// NAT64 and 6to4 addresses embed an IPv4 address BlockList does not extract, so those
+// ranges are refused whole.
+const PRIVATE_RANGES = new BlockList();
+for (const [net, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  PRIVATE_RANGES.addSubnet(net, prefix, "ipv4");
+}
+for (const [net, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+  ["64:ff9b::", 96],
+  ["64:ff9b:1::", 48],
+  ["2002::", 16],
+] as const) {
+  PRIVATE_RANGES.addSubnet(net, prefix, "ipv6");
+}
+
+export function isPrivateAddress(address: string) {
+  const family = isIP(address);
+  if (!family) return true;
+  return PRIVATE_RANGES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+const MAX_REDIRECTS = 5;
+
+/**
+ * DNS lookup for outbound connections that fails on private addresses, so the
+ * address connected to is one that passed the check.
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "", 0);
+    if (addresses.some((a) => isPrivateAddress(a.address))) {
+      return callback(new UploadPolicyError(`URL host ${hostname} resolves to a private or local address`), "", 0);
+    }
+    if (options.all) return (callback as (err: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/** Status codes whose Response must not have a body. */
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+function isInside(root: string, target: string) {
+  const relative = path.relative(root, target);
+  return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+}
+
+export class UploadPolicy {
+  readonly config: UploadPolicyConfig;
+
+  /** Defaults to the permissive stdio policy. */
+  constructor(config: Partial<UploadPolicyConfig> = {}) {
+    this.config = {
+      inputs: config.inputs ?? DEFAULT_INPUTS.stdio,
+      roots: (config.roots ?? []).map((root) => path.resolve(root)),
+      allowed_types: config.allowed_types ?? [],
+      allow_private_urls: config.allow_private_urls ?? false,
+    };
+  }
+
+  /**
+   * UPLOAD_INPUTS_STDIO / UPLOAD_INPUTS_HTTP (comma-separated inputs),
+   * UPLOAD_ROOTS (directories, separated by the platform's path delimiter),
+   * UPLOAD_ALLOWED_TYPES (comma-separated) and UPLOAD_ALLOW_PRIVATE_URLS.
+   * Over HTTP, local paths are off by default and need UPLOAD_ROOTS.
+   */
+  static fromEnv(transport: Transport, env: NodeJS.ProcessEnv = process.env): UploadPolicy {
+    const list = (value: string | undefined, separator: string) =>
+      value?.split(separator).map((v) => v.trim()).filter(Boolean);
+    const variable = `UPLOAD_INPUTS_${transport.toUpperCase()}`;
+    const inputs = list(env[variable], ",") ?? DEFAULT_INPUTS[transport];
+    const unknown = inputs.filter((i) => !(UPLOAD_INPUTS as readonly string[]).includes(i));
+    if (unknown.length) {
+      throw new Error(`${variable}: unknown input(s) ${unknown.join(", ")}; expected ${UPLOAD_INPUTS.join(", ")}`);
+    }
+    const roots = list(env.UPLOAD_ROOTS, path.delimiter) ?? [];
+    if (transport === "http" && inputs.includes("path") && !roots.length) {
+      throw new Error(`${variable} enables local paths over HTTP, which requires UPLOAD_ROOTS`);
+    }
+    return new UploadPolicy({
+      inputs: inputs as UploadInput[],
+      roots,
+      allowed_types: list(env.UPLOAD_ALLOWED_TYPES, ",") ?? [],
+      allow_private_urls: env.UPLOAD_ALLOW_PRIVATE_URLS === "true",
+    });
+  }
+
+  allows(input: UploadInput) {
+    return this.config.inputs.includes(input);
+  }
+
+  /**
+   * Check one upload input. Returns the input to upload from: for local
+   * paths, the resolved real path (so a symlink swapped later is not followed).
+   */
+  async check(input: string): Promise<string> {
+    if (/^https?:\/\//i.test(input)) {
+      this.require("url");
+      await this.checkUrl(input);
+      return input;
+    }
+    if (/^data:/i.test(input)) {
+      this.require("data");
+      const match = input.match(/^data:([^;]+);base64,(.+)$/);
+      // Malformed data URIs are reported by the upload itself
+      if (match) this.checkContent(Buffer.from(match[2].slice(0, 1024), "base64"), { mimeType: match[1] });
+      return input;
+    }
+    const real = await this.checkPath(input);
+    const handle = await open(real, "r");
+    try {
+      const { buffer, bytesRead } = await handle.read(Buffer.alloc(SNIFF_BYTES), 0, SNIFF_BYTES, 0);
+      this.checkContent(buffer.subarray(0, bytesRead), { filename: real });
+    } finally {
+      await handle.close();
+    }
+    return real;
+  }
+
+  /** A local file or directory, resolved and confined to the upload roots. */
+  async checkPath(input: string): Promise<string> {
+    this.require("path");
+    let real: string;
+    try {
+      real = await realpath(path.resolve(input));
+    } catch (err: any) {
+      if (err?.code === "ENOENT") throw new UploadPolicyError(`No such file or directory: ${input}`, "not_found");
+      throw err;
+    }
+    if (!this.config.roots.length) return real;
+    for (const root of this.config.roots) {
+      let realRoot: string;
+      try {
+        realRoot = await realpath(root);
+      } catch {
+        continue;
+      }
+      if (isInside(realRoot, real)) return real;
+    }
+    throw new UploadPolicyError(`${input} is outside the allowed upload directories`);
+  }
+
+  /** Throws unless `input` is accepted. */
+  require(input: UploadInput) {
+    if (this.allows(input)) return;
+    const names = { path: "Local paths", url: "URLs", data: "Data URIs", direct: "Direct uploads" };
+    throw new UploadPolicyError(`${names[input]} are not accepted as upload input on this server`);
+  }
+
+  /**
+   * Fetch a URL from this server (the local backend's URL uploads, HEAD size
+   * checks). Redirects are followed by hand, each hop checked like the
+   * original URL, and connections go only to addresses that pass the check.
+   */
+  async fetch(url: string, init: { method?: "GET" | "HEAD"; signal?: AbortSignal } = {}): Promise<Response> {
+    let current = url;
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      if (!/^https?:\/\//i.test(current)) throw new UploadPolicyError(`Unsupported redirect to ${current}`, "invalid_input");
+      await this.checkUrl(current);
+      const res = await this.request(current, init);
+      const location = res.headers.location;
+      if (res.statusCode && res.statusCode >= 300 && res.statusCode < 400 && location) {
+        res.resume();
+        current = new URL(location, current).toString();
+        continue;
+      }
+      const headers = new Headers();
+      for (let i = 0; i < res.rawHeaders.length; i += 2) headers.append(res.rawHeaders[i], res.rawHeaders[i + 1]);
+      const status = res.statusCode ?? 502;
+      const empty = init.method === "HEAD" || NULL_BODY_STATUSES.includes(status);
+      if (empty) res.resume();
+      return new Response(empty ? null : (Readable.toWeb(res) as ReadableStream), { status, headers });
+    }
+    throw new UploadPolicyError(`Too many redirects fetching ${url}`, "invalid_input");
+  }
+
+  private request(url: string, init: { method?: string; signal?: AbortSignal }): Promise<http.IncomingMessage> {
+    const client = url.toLowerCase().startsWith("https:") ? https : http;
+    const lookup = this.config.allow_private_urls ? undefined : publicLookup;
+    return new Promise((resolve, reject) => {
+      const req = client.request(url, { method: init.method ?? "GET", lookup, signal: init.signal }, resolve);
+      req.on("error", reject);
+      req.end();
+    });
+  }
+
+  /**
+   * A URL Cloudinary is asked to call back (a webhook): https only, and not on
+   * a private or local address, like upload URLs. Allowed regardless of the
+   * upload inputs.
+   */
+  async checkCallbackUrl(url: string) {
+    let protocol: string;
+    try {
+      protocol = new URL(url).protocol;
+    } catch {
+      throw new UploadPolicyError(`Invalid URL: ${url}`, "invalid_input");
+    }
+    if (protocol !== "https:") throw new UploadPolicyError(`Callback URLs must use https: ${url}`, "invalid_input");
+    await this.checkUrl(url);
+  }
+
+  private async checkUrl(url: string) {
+    if (this.config.allow_private_urls) return;
+    const host = new URL(url).hostname.replace(/^\[|\]$/g, "");
+    let addresses: string[];
+    if (isIP(host)) {
+      addresses = [host];
+    } else {
+      try {
+        addresses = (await lookup(host, { all: true })).map((a) => a.address);
+      } catch {
+        throw new UploadPolicyError(`Cannot resolve host ${host}`, "invalid_input");
+      }
+    }
+    if (addresses.some(isPrivateAddress)) {
+      throw new UploadPolicyError(`URL host ${host} resolves to a private or local address`);
+    }
+  }
+
+  /** Sniffed type against the allowlist, and against the extension or declared type. */
+  private checkContent(head: Buffer, facts: { filename?: string; mimeType?: string }) {
+    const sniffed = sniffType(head);
+    const ext = facts.filename ? path.extname(facts.filename).slice(1).toLowerCase() : "";
+    const claimed = facts.mimeType?.toLowerCase() ?? EXTENSION_TYPES[ext];
+
+    // Only the top-level type must agree: a .mov holding MP4 is fine, a .png holding an executable is not
+    if (sniffed && claimed && sniffed.split("/")[0] !== claimed.split("/")[0]) {
+      throw new UploadPolicyError(`Content looks like ${sniffed} but was given as ${claimed}`, "invalid_input");
+    }
+    const type = sniffed ?? claimed ?? "application/octet-stream";
+    const allowed = this.config.allowed_types;
+    if (allowed.length && !allowed.some((pattern) => typeMatches(type, pattern))) {
+      throw new UploadPolicyError(`Type ${type} is not allowed; allowed: ${allowed.join(", ")}`, "invalid_input");
+    }
+  }
+}
@@ -0,0 +1,239 @@
+import { v2 as cloudinary } from "cloudinary";
+import type { StorageBackend, TransformationComponent } from "./storage/index.js";
+import { TransformValidationError } from "./transformations.js";
+
+/**
+ * Video delivery helpers for the video tools: poster frames, trimmed clips,
+ * adaptive streaming URLs and eager transcode specs. Like `transform`, they
+ * only build URLs (and transformation components); nothing is rendered here.
+ */
+
+export const STREAMING_PROFILES = [
+  "auto",
+  "4k",
+  "full_hd",
+  "hd",
+  "sd",
+  "full_hd_wifi",
+  "full_hd_lean",
+  "hd_lean",
+] as const;
+
+/** Streaming protocol -> manifest extension. */
+export const STREAMING_FORMATS = { hls: "m3u8", dash: "mpd" } as const;
+
+export const VIDEO_FORMATS = ["mp4", "webm", "mov", "ogv", "m3u8", "mpd"] as const;
+export const VIDEO_CODECS = ["auto", "h264", "h265", "vp9", "av1"] as const;
+
+/** Seconds (number or "2.5"), a percentage ("50p") or "auto" (Cloudinary picks a frame). */
+export type VideoOffset = number | string;
+
+export type PosterFramesArgs = {
+  public_id: string;
+  offsets?: VideoOffset[];
+  width?: number;
+  height?: number;
+  format?: "jpg" | "png" | "webp";
+};
+
+export type TrimArgs = {
+  public_id: string;
+  start_offset?: VideoOffset;
+  end_offset?: VideoOffset;
+  duration?: number;
+  width?: number;
+  format?: (typeof VIDEO_FORMATS)[number];
+};
+
+export type StreamingArgs = {
+  public_id: string;
+  profile?: (typeof STREAMING_PROFILES)[number];
+  protocols?: (keyof typeof STREAMING_FORMATS)[];
+};
+
+export type TranscodeSpec = {
+  format?: (typeof VIDEO_FORMATS)[number];
+  width?: number;
+  height?: number;
+  quality?: "auto" | number;
+  video_codec?: (typeof VIDEO_CODECS)[number];
+  /** e.g. "2m" or "800k" */
+  bit_rate?: string;
+  streaming_profile?: (typeof STREAMING_PROFILES)[number];
+};
+
+export type TranscodeArgs = {
+  public_id: string;
+  transcodes: TranscodeSpec[];
+  /** Webhook Cloudinary calls when the transcodes are ready. */
+  notification_url?: string;
+};
+
+export const MAX_POSTER_FRAMES = 12;
+export const MAX_TRANSCODES = 10;
+
+const OFFSET_RE = /^(\d+(\.\d+)?p?|auto)$/;
+const BIT_RATE_RE = /^\d+[km]?$/i;
+
+function checkOffset(issues: string[], field: string, value: unknown) {
+  if (typeof value === "number" ? !(value >= 0) : typeof value !== "string" || !OFFSET_RE.test(value)) {
+    issues.push(`${field} must be seconds (>= 0), a percentage like "50p", or "auto"`);
+  }
+}
+
+function checkSize(issues: string[], field: string, value: unknown) {
+  if (value !== undefined && !(Number.isInteger(value) && (value as number) > 0 && (value as number) <= 8192)) {
+    issues.push(`${field} must be an integer between 1 and 8192`);
+  }
+}
+
+function checkEnum(issues: string[], field: string, value: unknown, allowed: readonly unknown[]) {
+  if (value !== undefined && !allowed.includes(value)) issues.push(`${field} must be one of: ${allowed.join(", ")}`);
+}
+
+function requirePublicId(issues: string[], args: { public_id?: unknown } | undefined) {
+  if (!args || typeof args.public_id !== "string" || !args.public_id) issues.push("public_id is required");
+}
+
+/** Seconds as a number when the offset is plain seconds, else undefined. */
+function seconds(offset: VideoOffset | undefined) {
+  if (offset === undefined) return undefined;
+  const n = Number(offset);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function transformationString(components: TransformationComponent[]) {
+  // generate_transformation_string mutates its input, so pass copies
+  return components.map((c) => cloudinary.utils.generate_transformation_string({ ...c } as any)).join("/");
+}
+
+// ---------------- Poster frames ----------------
+
+export function buildPosterFrames(args: PosterFramesArgs, storage: Pick<StorageBackend, "url">) {
+  const issues: string[] = [];
+  requirePublicId(issues, args);
+  const offsets = args?.offsets?.length ? args.offsets : ["auto"];
+  if (offsets.length > MAX_POSTER_FRAMES) issues.push(`at most ${MAX_POSTER_FRAMES} offsets`);
+  offsets.forEach((o, i) => checkOffset(issues, `offsets[${i}]`, o));
+  checkSize(issues, "width", args?.width);
+  checkSize(issues, "height", args?.height);
+  checkEnum(issues, "format", args?.format, ["jpg", "png", "webp"]);
+  if (issues.length) throw new TransformValidationError(issues);
+
+  return offsets.map((offset) => {
+    const component: TransformationComponent = { start_offset: offset };
+    if (args.width) component.width = args.width;
+    if (args.height) component.height = args.height;
+    if (args.width || args.height) component.crop = args.width && args.height ? "fill" : "scale";
+    const transformation = [component];
+    return {
+      offset,
+      transformation: transformationString(transformation),
+      url: storage.url(args.public_id, { resource_type: "video", format: args.format ?? "jpg", transformation }),
+    };
+  });
+}
+
+// ---------------- Trimming ----------------
+
+export function buildTrim(args: TrimArgs, storage: Pick<StorageBackend, "url">) {
+  const issues: string[] = [];
+  requirePublicId(issues, args);
+  if (args?.start_offset === undefined && args?.end_offset === undefined && args?.duration === undefined) {
+    issues.push("provide start_offset, end_offset or duration");
+  }
+  if (args?.start_offset !== undefined) checkOffset(issues, "start_offset", args.start_offset);
+  if (args?.end_offset !== undefined) checkOffset(issues, "end_offset", args.end_offset);
+  if (args?.end_offset !== undefined && args?.duration !== undefined) issues.push("use end_offset or duration, not both");
+  if (args?.duration !== undefined && !(typeof args.duration === "number" && args.duration > 0)) {
+    issues.push("duration must be a positive number of seconds");
+  }
+  const start = seconds(args?.start_offset);
+  const end = seconds(args?.end_offset);
+  if (start !== undefined && end !== undefined && end <= start) issues.push("end_offset must be after start_offset");
+  checkSize(issues, "width", args?.width);
+  checkEnum(issues, "format", args?.format, VIDEO_FORMATS);
+  if (issues.length) throw new TransformValidationError(issues);
+
+  const component: TransformationComponent = {};
+  if (args.start_offset !== undefined) component.start_offset = args.start_offset;
+  if (args.end_offset !== undefined) component.end_offset = args.end_offset;
+  if (args.duration !== undefined) component.duration = args.duration;
+  const transformation: TransformationComponent[] = [component];
+  if (args.width) transformation.push({ width: args.width, crop: "limit" });
+
+  return {
+    start_offset: args.start_offset ?? 0,
+    end_offset: args.end_offset ?? (args.duration !== undefined ? (start ?? 0) + args.duration : undefined),
+    transformation: transformationString(transformation),
+    url: storage.url(args.public_id, { resource_type: "video", format: args.format ?? "mp4", transformation }),
+  };
+}
+
+// ---------------- Adaptive streaming ----------------
+
+export function buildStreamingUrls(args: StreamingArgs, storage: Pick<StorageBackend, "url">) {
+  const issues: string[] = [];
+  requirePublicId(issues, args);
+  checkEnum(issues, "profile", args?.profile, STREAMING_PROFILES);
+  const protocols = args?.protocols?.length ? args.protocols : (["hls", "dash"] as const);
+  protocols.forEach((p, i) => checkEnum(issues, `protocols[${i}]`, p, Object.keys(STREAMING_FORMATS)));
+  if (issues.length) throw new TransformValidationError(issues);
+
+  const profile = args.profile ?? "auto";
+  const transformation = [{ streaming_profile: profile }];
+  return protocols.map((protocol) => ({
+    protocol,
+    profile,
+    url: storage.url(args.public_id, {
+      resource_type: "video",
+      format: STREAMING_FORMATS[protocol],
+      transformation,
+    }),
+  }));
+}
+
+// ---------------- Eager transcodes ----------------
+
+/**
+ * Validate transcode specs and turn each into the transformation chain to
+ * request eagerly (format is part of each eager entry).
+ */
+export function compileTranscodes(args: TranscodeArgs) {
+  const issues: string[] = [];
+  requirePublicId(issues, args);
+  if (!Array.isArray(args?.transcodes) || !args.transcodes.length) {
+    issues.push("transcodes must be a non-empty array");
+  } else if (args.transcodes.length > MAX_TRANSCODES) {
+    issues.push(`at most ${MAX_TRANSCODES} transcodes`);
+  } else {
+    args.transcodes.forEach((t, i) => {
+      const at = `transcodes[${i}]`;
+      checkEnum(issues, `${at}.format`, t.format, VIDEO_FORMATS);
+      checkSize(issues, `${at}.width`, t.width);
+      checkSize(issues, `${at}.height`, t.height);
+      checkEnum(issues, `${at}.video_codec`, t.video_codec, VIDEO_CODECS);
+      checkEnum(issues, `${at}.streaming_profile`, t.streaming_profile, STREAMING_PROFILES);
+      if (t.quality !== undefined && t.quality !== "auto" && !(Number.isInteger(t.quality) && t.quality >= 1 && t.quality <= 100)) {
+        issues.push(`${at}.quality must be "auto" or 1-100`);
+      }
+      if (t.bit_rate !== undefined && !BIT_RATE_RE.test(t.bit_rate)) issues.push(`${at}.bit_rate must look like 800k or 2m`);
+      if (t.streaming_profile && t.format !== "m3u8" && t.format !== "mpd") {
+        issues.push(`${at}.streaming_profile needs format m3u8 or mpd`);
+      }
+    });
+  }
+  if (issues.length) throw new TransformValidationError(issues);
+
+  return args.transcodes.map((t) => {
+    const component: TransformationComponent = {};
+    if (t.width) component.width = t.width;
+    if (t.height) component.height = t.height;
+    if (t.width || t.height) component.crop = "limit";
+    if (t.quality !== undefined) component.quality = t.quality;
+    if (t.video_codec) component.video_codec = t.video_codec;
+    if (t.bit_rate) component.bit_rate = t.bit_rate;
+    if (t.streaming_profile) component.streaming_profile = t.streaming_profile;
+    return { format: t.format ?? "mp4", transformation: [component] };
+  });
+}
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { ApiKeyVerifier, isToolAllowed } from "../dist/auth.js";
+import { connect, localStorage, stored } from "./helpers.mjs";
+
+const verifier = new ApiKeyVerifier({
+  clients: [
+    { id: "uploader", key: "upload-key", scopes: ["upload"] },
+    { id: "admin", key: "admin-key", scopes: ["*"], deny: ["delete_assets"] },
+  ],
+});
+
+test("unknown keys are rejected", async () => {
+  await assert.rejects(verifier.verifyAccessToken("wrong-key"), { name: "InvalidTokenError" });
+});
+
+test("scopes and deny lists decide which tools a client may call", async () => {
+  const uploader = await verifier.verifyAccessToken("upload-key");
+  assert.equal(uploader.clientId, "uploader");
+  assert.equal(isToolAllowed(uploader, "upload"), true);
+  assert.equal(isToolAllowed(uploader, "get_job"), true);
+  assert.equal(isToolAllowed(uploader, "delete_assets"), false);
+
+  const admin = await verifier.verifyAccessToken("admin-key");
+  assert.equal(isToolAllowed(admin, "rename_asset"), true);
+  assert.equal(isToolAllowed(admin, "delete_assets"), false);
+});
+
+test("the server hides and refuses tools outside the client's scopes", async (t) => {
+  const storage = localStorage(t);
+  await stored(storage, "kept");
+  const client = await connect(t, storage, { identity: await verifier.verifyAccessToken("upload-key") });
+
+  const tools = (await client.listTools()).tools.map((tool) => tool.name);
+  assert.ok(tools.includes("upload"));
+  assert.ok(!tools.includes("delete_assets"));
+
+  await assert.rejects(
+    client.callTool({ name: "delete_assets", arguments: { public_ids: ["kept"], confirm: true } }),
+    /not allowed to call tool/
+  );
+  await assert.rejects(client.readResource({ uri: "cloudinary://asset/image/kept" }), /not allowed/);
+  assert.equal((await storage.getResource("kept", "image")).public_id, "kept");
+
+  const admin = await connect(t, storage, { identity: await verifier.verifyAccessToken("admin-key") });
+  assert.equal((await admin.readResource({ uri: "cloudinary://asset/image/kept" })).contents.length > 0, true);
+});
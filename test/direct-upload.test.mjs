@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import { existsSync } from "node:fs";
+import http from "node:http";
+import path from "node:path";
+import { Readable } from "node:stream";
+import { test } from "node:test";
+import { connect, connectHttp, localStorage, PNG, startHttpServer, stored } from "./helpers.mjs";
+
+const alice = { token: "a", clientId: "alice", scopes: ["upload"] };
+const bob = { token: "b", clientId: "bob", scopes: ["upload"] };
+
+async function sign(client, args = {}) {
+  const result = await client.callTool({ name: "sign_upload", arguments: args });
+  assert.equal(result.isError, undefined, result.content?.[0]?.text);
+  return result.structuredContent.direct_upload;
+}
+
+function post(storage, resourceType, fields) {
+  return storage.acceptSignedUpload(resourceType, fields, {
+    stream: Readable.from([PNG]),
+    size: PNG.length,
+    filename: "dot.png",
+    mimeType: "image/png",
+  });
+}
+
+const complete = (client, args) => client.callTool({ name: "complete_direct_upload", arguments: args });
+
+test("a grant only completes the asset it was signed for", async (t) => {
+  const storage = localStorage(t);
+  const client = await connect(t, storage, { identity: alice });
+  const signed = await sign(client, { folder: "web" });
+
+  // Someone else's upload in the same window is not this grant's
+  const other = await stored(storage, "web/someone-else");
+  const claimed = await complete(client, { upload_id: signed.upload_id, public_id: other.public_id });
+  assert.equal(claimed.isError, true);
+  assert.equal(claimed.structuredContent.error.category, "forbidden");
+
+  const uploaded = await post(storage, "auto", signed.fields);
+  assert.equal(uploaded.public_id, `web/${signed.public_id}`);
+  const done = await complete(client, { upload_id: signed.upload_id, public_id: uploaded.public_id });
+  assert.equal(done.isError, undefined, done.content[0].text);
+  assert.equal(done.structuredContent.upload.public_id, uploaded.public_id);
+});
+
+test("another client's grant reads as not found", async (t) => {
+  const storage = localStorage(t);
+  const signed = await sign(await connect(t, storage, { identity: alice }));
+  const uploaded = await post(storage, "auto", signed.fields);
+  const result = await complete(await connect(t, storage, { identity: bob }), {
+    upload_id: signed.upload_id,
+    public_id: uploaded.public_id,
+  });
+  assert.equal(result.structuredContent.error.category, "not_found");
+});
+
+test("the emulator refuses changed fields and resource types", async (t) => {
+  const storage = localStorage(t);
+  const signed = await sign(await connect(t, storage, { identity: alice }), { resource_type: "image" });
+  await assert.rejects(post(storage, "image", { ...signed.fields, folder: "elsewhere" }), { http_code: 401 });
+  await assert.rejects(post(storage, "raw", signed.fields), { http_code: 401 });
+  await assert.rejects(post(storage, "..", signed.fields), { http_code: 400 });
+});
+
+test("the emulator's upload route cannot write outside its asset directories", async (t) => {
+  const { url, dir } = await startHttpServer(t);
+  const signed = await sign(await connectHttp(t, url), { public_id: "analysis", resource_type: "raw" });
+
+  const form = new FormData();
+  for (const [key, value] of Object.entries(signed.fields)) form.append(key, value);
+  form.append("file", new Blob(['{"*":{}}'], { type: "application/json" }), "analysis.json");
+  const request = new Request(url, { method: "POST", body: form });
+  const data = Buffer.from(await request.arrayBuffer());
+
+  // Sent with a raw path, since URL parsing would resolve the ".." itself
+  const status = await new Promise((resolve, reject) => {
+    http
+      .request(
+        {
+          host: "127.0.0.1",
+          port: new URL(url).port,
+          path: "/local-assets/%2e%2e/upload",
+          method: "POST",
+          headers: { "content-type": request.headers.get("content-type"), "content-length": data.length },
+        },
+        (res) => {
+          res.resume();
+          resolve(res.statusCode);
+        }
+      )
+      .on("error", reject)
+      .end(data);
+  });
+  assert.equal(status, 400);
+  assert.equal(existsSync(path.join(dir, "analysis.json")), false);
+});
@@ -0,0 +1,119 @@
+// Shared by the tests, which run against the compiled server in dist/ (npm test builds it first).
+import { spawn } from "node:child_process";
+import { mkdtempSync, rmSync } from "node:fs";
+import net from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { Readable } from "node:stream";
+import { fileURLToPath } from "node:url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { CloudinaryServer } from "../dist/cloudinary-server.js";
+import { LocalBackend } from "../dist/storage/index.js";
+
+const dist = path.join(path.dirname(fileURLToPath(import.meta.url)), "..", "dist");
+
+/** A 1×1 PNG. */
+export const PNG = Buffer.from(
+  "89504e470d0a1a0a0000000d49484452000000010000000108060000001f15c4890000000d4944415478da63f8cfc0f01f0005000201a5d0c1c20000000049454e44ae426082",
+  "hex"
+);
+
+/** A fresh directory, removed when the test ends. */
+export function tempDir(t) {
+  const dir = mkdtempSync(path.join(os.tmpdir(), "cloudinary-mcp-test-"));
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+  return dir;
+}
+
+export function localStorage(t) {
+  return new LocalBackend(tempDir(t), "http://localhost:3000/local-assets");
+}
+
+export function stored(storage, publicId, options = {}) {
+  return storage.upload(
+    { kind: "stream", stream: Readable.from([PNG]), size: PNG.length, filename: "dot.png" },
+    { public_id: publicId, ...options }
+  );
+}
+
+/** An MCP client connected in memory to a CloudinaryServer on `storage`. */
+export async function connect(t, storage, options = {}) {
+  const server = new CloudinaryServer(storage, options);
+  const [serverSide, clientSide] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverSide);
+  const client = new Client({ name: "test", version: "1.0.0" });
+  await client.connect(clientSide);
+  t.after(() => client.close());
+  return client;
+}
+
+function freePort() {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer().listen(0, "127.0.0.1", () => {
+      const { port } = server.address();
+      server.close(() => resolve(port));
+    });
+    server.on("error", reject);
+  });
+}
+
+/**
+ * The HTTP server with the local storage emulator, stopped when the test ends.
+ * Resolves with its URL and storage directory.
+ */
+export async function startHttpServer(t, env = {}) {
+  const port = await freePort();
+  const dir = tempDir(t);
+  const child = spawn(process.execPath, [path.join(dist, "index.http.js")], {
+    env: {
+      ...process.env,
+      PORT: String(port),
+      STORAGE_BACKEND: "local",
+      LOCAL_STORAGE_DIR: dir,
+      LOG_LEVEL: "error",
+      ...env,
+    },
+    stdio: ["ignore", "ignore", "inherit"],
+  });
+  t.after(() => child.kill());
+  const url = `http://127.0.0.1:${port}`;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      if ((await fetch(url)).ok) return { url, dir };
+    } catch {
+      if (attempt > 100 || child.exitCode !== null) throw new Error("HTTP server did not start");
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+  }
+}
+
+/** An MCP client connected to the HTTP server at `url`. */
+export async function connectHttp(t, url, key) {
+  const client = new Client({ name: "test", version: "1.0.0" });
+  const headers = key ? { authorization: `Bearer ${key}` } : {};
+  await client.connect(new StreamableHTTPClientTransport(new URL(`${url}/mcp`), { requestInit: { headers } }));
+  t.after(() => client.close());
+  return client;
+}
+
+/** POST an MCP initialize request; resolves with the HTTP status. */
+export async function initialize(url, key) {
+  const res = await fetch(`${url}/mcp`, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      accept: "application/json, text/event-stream",
+      ...(key ? { authorization: `Bearer ${key}` } : {}),
+    },
+    body: JSON.stringify({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: { protocolVersion: "2025-06-18", capabilities: {}, clientInfo: { name: "test", version: "1.0.0" } },
+    }),
+  });
+  await res.body?.cancel();
+  return res.status;
+}
@@ -0,0 +1,34 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { SessionManager } from "../dist/sessions.js";
+import { initialize, startHttpServer } from "./helpers.mjs";
+
+const limits = { idleTimeoutMs: 0, maxSessions: 3, maxSessionsPerClient: 1, eventHistory: 10 };
+
+// Concurrent initialize requests are all admitted before any of them is added
+test("sessions still initializing count against the limits", () => {
+  const sessions = new SessionManager(limits);
+  const first = sessions.admit("alice");
+  assert.throws(() => sessions.admit("alice"), { http_code: 429 });
+  first.release();
+  first.release();
+  sessions.admit("alice");
+  sessions.admit("bob");
+  sessions.admit(undefined);
+  assert.throws(() => sessions.admit("carol"), { http_code: 503 });
+});
+
+test("initialize requests past the per-client limit get 429", async (t) => {
+  const { url } = await startHttpServer(t, { MCP_API_KEYS: "alice:alice-key,bob:bob-key", MAX_SESSIONS_PER_CLIENT: "2" });
+  const statuses = await Promise.all(Array.from({ length: 6 }, () => initialize(url, "alice-key")));
+  assert.equal(statuses.filter((s) => s === 200).length, 2, statuses.join(","));
+  assert.equal(statuses.filter((s) => s === 429).length, 4, statuses.join(","));
+  assert.equal(await initialize(url, "bob-key"), 200);
+});
+
+test("initialize requests past the server-wide limit get 503", async (t) => {
+  const { url } = await startHttpServer(t, { MAX_SESSIONS: "3" });
+  const statuses = await Promise.all(Array.from({ length: 6 }, () => initialize(url)));
+  assert.equal(statuses.filter((s) => s === 200).length, 3, statuses.join(","));
+  assert.equal(statuses.filter((s) => s === 503).length, 3, statuses.join(","));
+});
@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import http from "node:http";
+import { test } from "node:test";
+import { isPrivateAddress, UploadPolicy, UploadPolicyError } from "../dist/upload-policy.js";
+
+const rejects = (promise, category) =>
+  assert.rejects(promise, (err) => err instanceof UploadPolicyError && err.category === category);
+
+test("private, local and metadata addresses are private", () => {
+  for (const address of [
+    "127.0.0.1",
+    "10.1.2.3",
+    "169.254.169.254",
+    "::1",
+    "::ffff:127.0.0.1",
+    "fd00::1",
+    "64:ff9b::7f00:1",
+    "2002:a9fe:a9fe::1",
+    "not-an-ip",
+  ]) {
+    assert.equal(isPrivateAddress(address), true, address);
+  }
+  assert.equal(isPrivateAddress("8.8.8.8"), false);
+  assert.equal(isPrivateAddress("2606:4700::1111"), false);
+});
+
+test("URL uploads to private hosts are refused", async () => {
+  const policy = UploadPolicy.fromEnv("http", {});
+  await rejects(policy.check("http://127.0.0.1/a.png"), "forbidden");
+  await rejects(policy.check("http://[::1]/a.png"), "forbidden");
+  await rejects(policy.check("http://169.254.169.254/latest/meta-data"), "forbidden");
+  await rejects(policy.check("http://localhost/a.png"), "forbidden");
+});
+
+test("inputs the transport does not allow are refused", async () => {
+  const policy = UploadPolicy.fromEnv("http", {});
+  await rejects(policy.check("/etc/passwd"), "forbidden");
+  await rejects(UploadPolicy.fromEnv("http", { UPLOAD_INPUTS_HTTP: "data" }).check("https://example.com/a.png"), "forbidden");
+  assert.throws(() => UploadPolicy.fromEnv("http", { UPLOAD_INPUTS_HTTP: "path" }), /UPLOAD_ROOTS/);
+});
+
+test("server-side fetches never connect to a private host", async (t) => {
+  let requests = 0;
+  const server = http.createServer((_req, res) => {
+    requests++;
+    res.end("secret");
+  });
+  await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+  t.after(() => server.close());
+
+  const policy = new UploadPolicy();
+  await rejects(policy.fetch(`http://127.0.0.1:${server.address().port}/`), "forbidden");
+  await rejects(policy.fetch(`http://localhost:${server.address().port}/`), "forbidden");
+  assert.equal(requests, 0);
+});
+
+test("callback URLs must be https on a public host", async () => {
+  const policy = new UploadPolicy();
+  await rejects(policy.checkCallbackUrl("http://example.com/hook"), "invalid_input");
+  await rejects(policy.checkCallbackUrl("not a url"), "invalid_input");
+  await rejects(policy.checkCallbackUrl("https://169.254.169.254/hook"), "forbidden");
+  await policy.checkCallbackUrl("https://93.184.215.14/hook");
+});